@@ -0,0 +1,4249 @@
+// Variable to CSS — generator core
+// Pure functions from a variables snapshot + ExportOptions to CSSOutput.
+// Nothing here touches the figma global: code.ts adapts the plugin API,
+// cli.ts reads a JSON snapshot from disk.
+// Default breakpoint mode names and their viewport widths
+// These are the ACTUAL viewport widths where each breakpoint applies (for clamp calculations)
+// Media queries use (breakpointPx - 1) for max-width thresholds
+// Never mutated — per-export tables come in through ExportOptions.breakpoints
+var DEFAULT_BREAKPOINTS = {
+    'desktop': 1680, // >=1680px (default, no media query)
+    'laptop': 1366, // >=1366px, generates @media (max-width: 1679px)
+    'tablet': 840, // >=840px, generates @media (max-width: 1365px)
+    'mobile': 480 // >=480px, generates @media (max-width: 839px)
+};
+var THEME_MODES = ['light', 'dark'];
+// Theme modes for @media (prefers-contrast: more): "High Contrast Dark", "HC Light", "Contrast"
+var CONTRAST_MODE_PATTERN = /contrast|\bhc\b/i;
+// Values @media (forced-colors: active) can map tokens to (CSS Color 4 system colors)
+var SYSTEM_COLORS = [
+    'AccentColor', 'AccentColorText', 'ActiveText', 'ButtonBorder', 'ButtonFace', 'ButtonText',
+    'Canvas', 'CanvasText', 'Field', 'FieldText', 'GrayText', 'Highlight', 'HighlightText',
+    'LinkText', 'Mark', 'MarkText', 'SelectedItem', 'SelectedItemText', 'VisitedText'
+];
+// Token lint rules and their default severity
+var DEFAULT_LINT_RULES = {
+    'mapping-to-foundation': 'warning', // Mappings alias Foundations, skipping the Aliases layer
+    'foundation-alias': 'error', // Foundations hold raw values only
+    'alias-mode-variance': 'warning', // Aliases are single-mode; per-mode values go in Aliases Extended
+    'identical-theme-values': 'info', // Theme token with the same value in light and dark
+    'naming': 'off' // Variable name matches none of lintNamePatterns (opt-in)
+};
+// Lowercase, hyphenated path segments: "space/card-padding"
+var DEFAULT_NAME_PATTERN = '^[a-z0-9]+(-[a-z0-9]+)*(/[a-z0-9]+(-[a-z0-9]+)*)*$';
+// ============================================
+// COLLECTION SCANNING
+// ============================================
+function scanCollections(snapshot) {
+    var collections = snapshot.collections;
+    var localVariables = snapshot.variables;
+    var collectionInfos = [];
+    // Mode names only the viewport variable knows about still count as breakpoints
+    var detected = extractBreakpointsFromVariables(snapshot);
+    var breakpoints = detected ? detected.breakpoints : DEFAULT_BREAKPOINTS;
+    // Count variables per group path for the per-group export checkboxes
+    var groupCounts = new Map();
+    for (var i = 0; i < localVariables.length; i++) {
+        var v = localVariables[i];
+        var counts = groupCounts.get(v.variableCollectionId);
+        if (!counts) {
+            counts = new Map();
+            groupCounts.set(v.variableCollectionId, counts);
+        }
+        var group = getVariableGroup(v.name);
+        counts.set(group, (counts.get(group) || 0) + 1);
+    }
+    for (var i = 0; i < collections.length; i++) {
+        var collection = collections[i];
+        if (collection.remote)
+            continue;
+        var parsed = parseCollectionName(collection.name);
+        var modes = [];
+        for (var j = 0; j < collection.modes.length; j++) {
+            var m = collection.modes[j];
+            modes.push({
+                modeId: m.modeId,
+                name: m.name,
+                breakpointPx: detectBreakpoint(m.name, breakpoints)
+            });
+        }
+        var modeType = detectModeType(modes);
+        var groups = [];
+        var collectionCounts = groupCounts.get(collection.id);
+        if (collectionCounts) {
+            collectionCounts.forEach(function (count, path) {
+                groups.push({ path: path, variableCount: count });
+            });
+            groups.sort(function (a, b) { return a.path.localeCompare(b.path); });
+        }
+        collectionInfos.push({
+            id: collection.id,
+            name: collection.name,
+            domain: parsed.domain,
+            layer: parsed.layer,
+            layerType: parsed.layerType,
+            modes: modes,
+            modeType: modeType,
+            defaultModeId: getDefaultMode(collection).modeId,
+            variableCount: collection.variableIds.length,
+            groups: groups
+        });
+    }
+    // Sort by domain and layer
+    collectionInfos.sort(function (a, b) {
+        if (a.domain !== b.domain)
+            return a.domain.localeCompare(b.domain);
+        return a.layer.localeCompare(b.layer);
+    });
+    var totalVariables = 0;
+    for (var i = 0; i < collectionInfos.length; i++) {
+        totalVariables += collectionInfos[i].variableCount;
+    }
+    return { collections: collectionInfos, totalVariables: totalVariables };
+}
+function parseCollectionName(name) {
+    // Pattern: "Domain - Layer. Type" or "Domain - Layer Type"
+    // Examples: "Typo - 1. Foundations", "Space - 2.1 Aliases Extended", "Dimension - 4. Mappings"
+    var match = name.match(/^([A-Za-z]+)\s*-\s*(.+)$/);
+    var domain = match ? match[1].toLowerCase() : name.toLowerCase();
+    var layer = match ? match[2].trim() : 'default';
+    // Detect layer type from collection name
+    var lowerName = name.toLowerCase();
+    var layerType = 'other';
+    if (lowerName.indexOf('foundation') !== -1) {
+        layerType = 'foundations';
+    }
+    else if (lowerName.indexOf('extended') !== -1 || lowerName.indexOf('2.1') !== -1) {
+        layerType = 'aliases-extended';
+    }
+    else if (lowerName.indexOf('alias') !== -1) {
+        layerType = 'aliases';
+    }
+    else if (lowerName.indexOf('mapping') !== -1) {
+        layerType = 'mappings';
+    }
+    return { domain, layer, layerType };
+}
+// Breakpoint table for one export, keyed by lowercase mode name:
+// options.breakpoints if it has any entries, else DEFAULT_BREAKPOINTS
+function getBreakpoints(options) {
+    var source = options.breakpoints && Object.keys(options.breakpoints).length > 0 ? options.breakpoints : DEFAULT_BREAKPOINTS;
+    var breakpoints = {};
+    var names = Object.keys(source);
+    for (var i = 0; i < names.length; i++) {
+        var px = source[names[i]];
+        if (typeof px === 'number' && px > 0)
+            breakpoints[names[i].trim().toLowerCase()] = px;
+    }
+    return breakpoints;
+}
+// Viewport width for a mode name, tried in order:
+// 1. the whole name is a table entry ("Tablet+" → table["tablet+"])
+// 2. the name contains a width of 3+ digits ("1920", "Phone 390px")
+// 3. the name contains a table entry, longest entry first ("Mobile L" → table["mobile"])
+function detectBreakpoint(modeName, breakpoints) {
+    var lower = modeName.trim().toLowerCase();
+    if (breakpoints.hasOwnProperty(lower))
+        return breakpoints[lower];
+    var width = lower.match(/(^|[^0-9])([0-9]{3,5})\s*(px)?($|[^0-9])/);
+    if (width)
+        return parseInt(width[2], 10);
+    var entries = Object.keys(breakpoints).sort(function (a, b) { return b.length - a.length; });
+    for (var i = 0; i < entries.length; i++) {
+        if (lower.indexOf(entries[i]) !== -1)
+            return breakpoints[entries[i]];
+    }
+    return undefined;
+}
+function detectModeType(modes) {
+    if (modes.length === 1)
+        return 'single';
+    // Check if all modes have breakpoints
+    var hasBreakpoints = true;
+    for (var i = 0; i < modes.length; i++) {
+        if (modes[i].breakpointPx === undefined) {
+            hasBreakpoints = false;
+            break;
+        }
+    }
+    if (hasBreakpoints)
+        return 'breakpoint';
+    // Check if modes are light/dark (substring match for names like "Light Mode", "Dark Theme", etc.)
+    // or high contrast
+    for (var i = 0; i < modes.length; i++) {
+        var modeName = modes[i].name.toLowerCase();
+        if (CONTRAST_MODE_PATTERN.test(modeName))
+            return 'theme';
+        for (var j = 0; j < THEME_MODES.length; j++) {
+            if (modeName.indexOf(THEME_MODES[j]) !== -1) {
+                return 'theme';
+            }
+        }
+    }
+    // Any other set of modes (brands, density) is a variant: each mode gets a selector
+    return 'variant';
+}
+// The collection's default mode, which goes in the base block of variant collections
+function getDefaultMode(collection) {
+    for (var i = 0; i < collection.modes.length; i++) {
+        if (collection.modes[i].modeId === collection.defaultModeId)
+            return collection.modes[i];
+    }
+    return collection.modes[0];
+}
+// Selector for a non-default variant mode: the configured one, else [data-mode="<mode-name>"]
+function getVariantSelector(modeName, options) {
+    var configured = options.variantSelectors ? options.variantSelectors[modeName.trim().toLowerCase()] : undefined;
+    if (configured && configured.trim())
+        return configured.trim();
+    return '[data-mode="' + slugify(modeName) + '"]';
+}
+// Extract breakpoint values from Figma variables (viewport in Dimension Foundations)
+// Returns detected breakpoints and the source variable name, or null if not found
+function extractBreakpointsFromVariables(snapshot) {
+    var collections = snapshot.collections;
+    var variablesById = new Map();
+    for (var i = 0; i < snapshot.variables.length; i++) {
+        variablesById.set(snapshot.variables[i].id, snapshot.variables[i]);
+    }
+    var collectionsById = new Map();
+    for (var i = 0; i < collections.length; i++) {
+        collectionsById.set(collections[i].id, collections[i]);
+    }
+    for (var ci = 0; ci < collections.length; ci++) {
+        var collection = collections[ci];
+        if (collection.remote)
+            continue;
+        var parsed = parseCollectionName(collection.name);
+        // Look for Dimension Foundations collection
+        if (parsed.domain !== 'dimension' || parsed.layerType !== 'foundations')
+            continue;
+        // Must have multiple modes — any names: the viewport variable gives each its width
+        if (collection.modes.length < 2)
+            continue;
+        // Scan variables for "viewport" in name (prefer "viewport--min", fall back to "viewport")
+        var viewportMinVar = null;
+        var viewportVar = null;
+        for (var vi = 0; vi < collection.variableIds.length; vi++) {
+            var varId = collection.variableIds[vi];
+            var variable = variablesById.get(varId);
+            if (!variable)
+                continue;
+            if (variable.resolvedType !== 'FLOAT')
+                continue;
+            var nameLower = variable.name.toLowerCase();
+            if (nameLower.indexOf('viewport') !== -1 && nameLower.indexOf('min') !== -1) {
+                viewportMinVar = variable;
+                break; // Prefer viewport--min
+            }
+            if (nameLower.indexOf('viewport') !== -1 && !viewportVar) {
+                viewportVar = variable;
+            }
+        }
+        var targetVar = viewportMinVar || viewportVar;
+        if (!targetVar)
+            continue;
+        // Extract the value for each mode as the breakpoint, keyed by mode name
+        var breakpoints = {};
+        for (var mi = 0; mi < collection.modes.length; mi++) {
+            var mode = collection.modes[mi];
+            var rawValue = targetVar.valuesByMode[mode.modeId];
+            // Resolve if alias
+            if (rawValue && typeof rawValue === 'object' && 'type' in rawValue
+                && rawValue.type === 'VARIABLE_ALIAS') {
+                var aliasVar = variablesById.get(rawValue.id);
+                if (aliasVar) {
+                    var aliasCollection = collectionsById.get(aliasVar.variableCollectionId);
+                    if (aliasCollection && aliasCollection.modes.length > 0) {
+                        rawValue = aliasVar.valuesByMode[aliasCollection.modes[0].modeId];
+                    }
+                }
+            }
+            if (typeof rawValue === 'number' && rawValue > 0) {
+                breakpoints[mode.name.trim().toLowerCase()] = rawValue;
+            }
+        }
+        // Only return if we found at least 2 breakpoints
+        if (Object.keys(breakpoints).length >= 2) {
+            return { breakpoints: breakpoints, sourceName: targetVar.name };
+        }
+    }
+    return null;
+}
+// Check if a variable has different values/aliases across modes
+function hasModeVariance(variable, modes, options) {
+    if (modes.length <= 1)
+        return false;
+    var firstValue = formatCSSValue(variable.valuesByMode[modes[0].modeId], variable, options);
+    for (var i = 1; i < modes.length; i++) {
+        var value = variable.valuesByMode[modes[i].modeId];
+        if (!value)
+            continue;
+        var cssValue = formatCSSValue(value, variable, options);
+        if (cssValue !== firstValue)
+            return true;
+    }
+    return false;
+}
+// Check if a variable needs media queries (alias that changes reference, or non-clampable value)
+function needsMediaQueries(variable, modes, options) {
+    // If variable has mode variance, check if it's clampable numeric
+    if (!hasModeVariance(variable, modes, options))
+        return false;
+    // Non-FLOAT types always need media queries (can't use clamp)
+    if (variable.resolvedType !== 'FLOAT')
+        return true;
+    // Resolved aliases to different tokens per mode: a line through them matches neither
+    if (variable.steppedModes)
+        return true;
+    // Check if any mode has an alias value
+    for (var i = 0; i < modes.length; i++) {
+        var value = variable.valuesByMode[modes[i].modeId];
+        if (value && value.isAlias)
+            return true;
+    }
+    // Numeric values without aliases can use clamp
+    return false;
+}
+// ============================================
+// EXPORT SELECTION
+// ============================================
+// Convert a glob pattern to a RegExp matched against Figma variable names.
+// "*" matches within one path segment, "**" across segments, "?" one character.
+// "**/" also matches zero segments, so "**/hover" matches "hover" and "button/hover".
+// With `capture`, every wildcard is a capture group.
+function globToRegExp(pattern, capture) {
+    var open = capture ? '(' : '(?:';
+    var source = '';
+    for (var i = 0; i < pattern.length; i++) {
+        var ch = pattern.charAt(i);
+        if (ch === '*') {
+            if (pattern.charAt(i + 1) === '*') {
+                if (pattern.charAt(i + 2) === '/') {
+                    source += open + '.*/)?';
+                    i += 2;
+                }
+                else {
+                    source += open + '.*)';
+                    i++;
+                }
+            }
+            else {
+                source += open + '[^/]*)';
+            }
+        }
+        else if (ch === '?') {
+            source += open + '[^/])';
+        }
+        else {
+            source += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp('^' + source + '$', 'i');
+}
+// Trim patterns and drop empty entries (UI sends one pattern per textarea line)
+function normalizePatterns(patterns) {
+    var result = [];
+    if (!patterns)
+        return result;
+    for (var i = 0; i < patterns.length; i++) {
+        var p = String(patterns[i]).trim();
+        if (p)
+            result.push(p);
+    }
+    return result;
+}
+function matchesAnyPattern(name, patterns) {
+    for (var i = 0; i < patterns.length; i++) {
+        if (globToRegExp(patterns[i]).test(name))
+            return true;
+    }
+    return false;
+}
+// Check a variable against the collection/group checkboxes and name patterns
+function isVariableSelected(variable, options) {
+    if (options.excludedCollections && options.excludedCollections.indexOf(variable.collectionId) !== -1) {
+        return false;
+    }
+    if (options.excludedGroups && options.excludedGroups.length > 0) {
+        var group = getVariableGroup(variable.name);
+        var prefix = variable.collectionId + ':';
+        for (var i = 0; i < options.excludedGroups.length; i++) {
+            var key = options.excludedGroups[i];
+            if (key.indexOf(prefix) !== 0)
+                continue;
+            // Excluding a group also excludes its sub-groups
+            var path = key.substring(prefix.length);
+            if (group === path || (path && group.indexOf(path + '/') === 0))
+                return false;
+        }
+    }
+    var includePatterns = normalizePatterns(options.includePatterns);
+    if (includePatterns.length > 0 && !matchesAnyPattern(variable.name, includePatterns)) {
+        return false;
+    }
+    var excludePatterns = normalizePatterns(options.excludePatterns);
+    if (excludePatterns.length > 0 && matchesAnyPattern(variable.name, excludePatterns)) {
+        return false;
+    }
+    return true;
+}
+// Aliases from exported variables to excluded ones would output dangling var() references.
+// Report each one, and replace it with the resolved value if inlining is enabled.
+function handleExcludedAliases(exportedVariables, exportedVariableMap, variableMap, collectionModes, options, errors) {
+    for (var vi = 0; vi < exportedVariables.length; vi++) {
+        var variable = exportedVariables[vi];
+        var modes = collectionModes.get(variable.collectionId) || [];
+        var reported = false;
+        for (var mi = 0; mi < modes.length; mi++) {
+            var mode = modes[mi];
+            var value = variable.valuesByMode[mode.modeId];
+            if (!value || !value.isAlias || !value.aliasId)
+                continue;
+            if (exportedVariableMap.has(value.aliasId))
+                continue;
+            // Unknown targets are already reported as broken aliases
+            var target = variableMap.get(value.aliasId);
+            if (!target)
+                continue;
+            var inlined = false;
+            if (options.inlineExcludedAliases) {
+                var literal = resolveAliasValue(value, mode, variableMap, collectionModes);
+                if (literal) {
+                    variable.valuesByMode[mode.modeId] = { raw: literal.raw, isAlias: false, resolved: literal.resolved, wideGamut: literal.wideGamut };
+                    inlined = true;
+                }
+            }
+            if (!reported) {
+                errors.push((inlined ? 'Inlined alias to excluded variable: ' : 'Alias to excluded variable: ')
+                    + variable.name + ' \u2192 ' + target.name + ' (' + target.collectionName + ')');
+                reported = true;
+            }
+        }
+        if (reported) {
+            variable.isAlias = false;
+            for (var mi = 0; mi < modes.length; mi++) {
+                var v = variable.valuesByMode[modes[mi].modeId];
+                if (v && v.isAlias)
+                    variable.isAlias = true;
+            }
+        }
+    }
+}
+// ============================================
+// ALIAS RESOLUTION
+// ============================================
+// Pick the mode of an alias target collection that corresponds to a source mode:
+// same name first, then same breakpoint width, else the target's default mode
+// (the first mode when the list doesn't mark one)
+function pickTargetMode(sourceMode, targetModes) {
+    if (targetModes.length === 0)
+        return null;
+    var lower = sourceMode.name.toLowerCase();
+    for (var i = 0; i < targetModes.length; i++) {
+        if (targetModes[i].name.toLowerCase() === lower)
+            return targetModes[i];
+    }
+    if (sourceMode.breakpointPx !== undefined) {
+        for (var i = 0; i < targetModes.length; i++) {
+            if (targetModes[i].breakpointPx === sourceMode.breakpointPx)
+                return targetModes[i];
+        }
+    }
+    for (var i = 0; i < targetModes.length; i++) {
+        if (targetModes[i].isDefault)
+            return targetModes[i];
+    }
+    return targetModes[0];
+}
+// Follow an alias chain to its first non-alias value. chain, if given, receives the IDs
+// of the variables passed through, the one holding the literal last.
+// Returns null for broken or circular chains
+function resolveAliasValue(value, sourceMode, variableMap, collectionModes, chain) {
+    var visited = new Set();
+    var current = value;
+    while (current.isAlias) {
+        if (!current.aliasId || visited.has(current.aliasId))
+            return null;
+        visited.add(current.aliasId);
+        if (chain)
+            chain.push(current.aliasId);
+        var target = variableMap.get(current.aliasId);
+        if (!target)
+            return null;
+        var targetMode = pickTargetMode(sourceMode, collectionModes.get(target.collectionId) || []);
+        if (!targetMode)
+            return null;
+        current = target.valuesByMode[targetMode.modeId];
+        if (!current)
+            return null;
+    }
+    return current;
+}
+// aliasMode 'resolved': replace every alias with the literal at the end of its chain,
+// following chains across collections with pickTargetMode.
+// A single-mode variable whose chain reaches a multi-mode collection takes that
+// collection's modes — a Mappings token pointing at a breakpoint foundation gets
+// the foundation's per-breakpoint values. Such variables move into a synthetic
+// collection ("Space - 4. Mappings (per breakpoint)") placed right after their own.
+function resolveAliasChains(exportedVariables, variableMap, collections, collectionModes, errors) {
+    var collectionById = new Map();
+    for (var ci = 0; ci < collections.length; ci++) {
+        collectionById.set(collections[ci].id, collections[ci]);
+    }
+    // Resolve everything before replacing anything: chains pass through exported variables
+    var results = [];
+    var syntheticCollections = new Map();
+    var syntheticModes = new Map();
+    for (var vi = 0; vi < exportedVariables.length; vi++) {
+        var variable = exportedVariables[vi];
+        if (!variable.isAlias) {
+            results.push(variable);
+            continue;
+        }
+        var ownModes = collectionModes.get(variable.collectionId) || [];
+        var modes = ownModes;
+        var collectionId = variable.collectionId;
+        var multiModeSource = ownModes.length === 1 ? findMultiModeCollection(variable.valuesByMode[ownModes[0].modeId], variableMap, collectionModes) : null;
+        if (multiModeSource) {
+            // One synthetic collection per source collection and mode set: tokens reaching
+            // two breakpoint collections with the same mode names share a section
+            var targetModes = collectionModes.get(multiModeSource) || [];
+            collectionId = variable.collectionId + '>' + targetModes.map(function (m) { return m.name.toLowerCase(); }).join('|');
+            var synthetic = syntheticCollections.get(collectionId);
+            if (!synthetic) {
+                var source = collectionById.get(variable.collectionId);
+                var modeType = detectModeType(targetModes);
+                synthetic = {
+                    id: collectionId,
+                    name: source.name + ' (per ' + (modeType === 'single' ? 'mode' : modeType) + ')',
+                    remote: false,
+                    modes: targetModes.map(function (m) { return { modeId: m.modeId, name: m.name }; }),
+                    defaultModeId: collectionById.get(multiModeSource).defaultModeId,
+                    variableIds: []
+                };
+                syntheticCollections.set(collectionId, synthetic);
+                syntheticModes.set(collectionId, targetModes);
+            }
+            modes = syntheticModes.get(collectionId);
+        }
+        var valuesByMode = {};
+        var unresolved = false;
+        // Variable holding each mode's literal ('' for the variable's own literals)
+        var literalOwners = [];
+        for (var mi = 0; mi < modes.length; mi++) {
+            var mode = modes[mi];
+            var value = multiModeSource ? variable.valuesByMode[ownModes[0].modeId] : variable.valuesByMode[mode.modeId];
+            if (!value)
+                continue;
+            var chain = [];
+            var literal = value.isAlias ? resolveAliasValue(value, mode, variableMap, collectionModes, chain) : value;
+            if (literalOwners.indexOf(chain.length > 0 ? chain[chain.length - 1] : '') === -1) {
+                literalOwners.push(chain.length > 0 ? chain[chain.length - 1] : '');
+            }
+            if (literal) {
+                valuesByMode[mode.modeId] = { raw: literal.raw, isAlias: false, resolved: literal.resolved, wideGamut: literal.wideGamut };
+            }
+            else {
+                valuesByMode[mode.modeId] = value;
+                unresolved = true;
+            }
+        }
+        if (unresolved) {
+            errors.push('Unresolved alias: ' + variable.name + ' (' + variable.collectionName + ') has a broken or circular chain and was left out');
+            continue;
+        }
+        var copy = Object.assign({}, variable);
+        copy.collectionId = collectionId;
+        copy.valuesByMode = valuesByMode;
+        copy.isAlias = false;
+        // Only a single target's values keep its scaling; mixed targets step per breakpoint
+        if (literalOwners.length > 1)
+            copy.steppedModes = true;
+        results.push(copy);
+    }
+    var outputCollections = [];
+    for (var ci = 0; ci < collections.length; ci++) {
+        outputCollections.push(collections[ci]);
+        syntheticCollections.forEach(function (synthetic, id) {
+            if (id.indexOf(collections[ci].id + '>') === 0)
+                outputCollections.push(synthetic);
+        });
+    }
+    return { variables: results, collections: outputCollections };
+}
+// First collection with more than one mode along an alias chain, or null
+function findMultiModeCollection(value, variableMap, collectionModes) {
+    var visited = new Set();
+    var current = value;
+    while (current && current.isAlias && current.aliasId && !visited.has(current.aliasId)) {
+        visited.add(current.aliasId);
+        var target = variableMap.get(current.aliasId);
+        if (!target)
+            return null;
+        var targetModes = collectionModes.get(target.collectionId) || [];
+        if (targetModes.length > 1)
+            return target.collectionId;
+        if (targetModes.length === 0)
+            return null;
+        current = target.valuesByMode[targetModes[0].modeId];
+    }
+    return null;
+}
+// Find var() reference cycles among the exported variables. The graph is over CSS
+// names, not variable IDs: two variables slugifying to the same name share a node,
+// and the name belongs to whichever declaration is output first (shouldSkipVariable
+// drops the rest). A cycle only counts if it exists within one mode — a breakpoint
+// token pointing "up" on desktop and "down" on mobile is fine.
+// Each cycle lists its variables in reference order, starting with the one output
+// first; the last one points back at it.
+function findAliasCycles(exportedVariables, collections, collectionModes) {
+    var collectionGroups = groupByCollection(exportedVariables, collections);
+    var sortedCollections = sortCollectionsForOutput(collectionGroups, collections);
+    // Declaring variable per CSS name, in output order
+    var owners = new Map();
+    var ordered = [];
+    for (var ci = 0; ci < sortedCollections.length; ci++) {
+        var variables = collectionGroups.get(sortedCollections[ci].id) || [];
+        for (var vi = 0; vi < variables.length; vi++) {
+            var variable = variables[vi];
+            if (owners.has(variable.cssName) || isSelfAlias(variable))
+                continue;
+            owners.set(variable.cssName, variable);
+            ordered.push(variable);
+        }
+    }
+    // One pass per mode name: each variable follows the value it has in that mode
+    var contextModes = [];
+    var seenModeNames = new Set();
+    for (var vi = 0; vi < ordered.length; vi++) {
+        var modes = collectionModes.get(ordered[vi].collectionId) || [];
+        for (var mi = 0; mi < modes.length; mi++) {
+            var key = modes[mi].name.toLowerCase();
+            if (seenModeNames.has(key))
+                continue;
+            seenModeNames.add(key);
+            contextModes.push(modes[mi]);
+        }
+    }
+    var cycles = [];
+    var seenCycles = new Set();
+    for (var ki = 0; ki < contextModes.length; ki++) {
+        var contextMode = contextModes[ki];
+        var state = new Map();
+        var stack = [];
+        var visit = function (variable) {
+            state.set(variable.cssName, 'visiting');
+            stack.push(variable);
+            var mode = pickTargetMode(contextMode, collectionModes.get(variable.collectionId) || []);
+            var value = mode ? variable.valuesByMode[mode.modeId] : undefined;
+            var target = value && value.isAlias && value.aliasName ? owners.get(value.aliasName) : undefined;
+            if (target && target !== variable) {
+                var targetState = state.get(target.cssName);
+                if (targetState === 'visiting') {
+                    var cycle = stack.slice(stack.indexOf(target));
+                    var cycleKey = cycle.map(function (v) { return v.cssName; }).sort().join(' ');
+                    if (!seenCycles.has(cycleKey)) {
+                        seenCycles.add(cycleKey);
+                        cycles.push(cycle);
+                    }
+                }
+                else if (!targetState) {
+                    visit(target);
+                }
+            }
+            stack.pop();
+            state.set(variable.cssName, 'done');
+        };
+        for (var vi = 0; vi < ordered.length; vi++) {
+            if (!state.has(ordered[vi].cssName))
+                visit(ordered[vi]);
+        }
+    }
+    // Start each cycle at the variable output first
+    return cycles.map(function (cycle) {
+        var first = 0;
+        for (var i = 1; i < cycle.length; i++) {
+            if (ordered.indexOf(cycle[i]) < ordered.indexOf(cycle[first]))
+                first = i;
+        }
+        return cycle.slice(first).concat(cycle.slice(0, first));
+    });
+}
+// An alias of its own CSS name mirrors the variable that declares it — shouldSkipVariable leaves it out
+function isSelfAlias(variable) {
+    var modeIds = Object.keys(variable.valuesByMode);
+    for (var i = 0; i < modeIds.length; i++) {
+        var value = variable.valuesByMode[modeIds[i]];
+        if (value.isAlias && value.aliasName === variable.cssName)
+            return true;
+    }
+    return false;
+}
+// Report each alias cycle with its full path and keep it out of the output:
+// 'skip' leaves out every variable on the cycle, 'break' replaces the reference
+// that closes it with the literal value at the end of the variable's own chain.
+// A cycle of variable IDs has no such literal and is left out either way.
+function handleAliasCycles(exportedVariables, exportedVariableMap, variableMap, collections, collectionModes, options, errors) {
+    var cycles = findAliasCycles(exportedVariables, collections, collectionModes);
+    var leftOut = new Set();
+    for (var ci = 0; ci < cycles.length; ci++) {
+        var cycle = cycles[ci];
+        var path = cycle.concat([cycle[0]]).map(function (v) {
+            return v.name + ' (' + v.collectionName + ')';
+        }).join(' \u2192 ');
+        if (options.cycleHandling !== 'break') {
+            for (var i = 0; i < cycle.length; i++) {
+                leftOut.add(cycle[i]);
+            }
+            errors.push('Circular alias: ' + path + ' \u2014 left out ' + cycle.length + ' variable' + (cycle.length === 1 ? '' : 's'));
+            continue;
+        }
+        // Resolve every closing reference before replacing any of them
+        var closing = cycle[cycle.length - 1];
+        var modes = collectionModes.get(closing.collectionId) || [];
+        var literals = {};
+        var breakable = true;
+        for (var mi = 0; mi < modes.length; mi++) {
+            var value = closing.valuesByMode[modes[mi].modeId];
+            if (!value || !value.isAlias || value.aliasName !== cycle[0].cssName)
+                continue;
+            var literal = resolveAliasValue(value, modes[mi], variableMap, collectionModes);
+            if (!literal) {
+                breakable = false;
+                break;
+            }
+            literals[modes[mi].modeId] = { raw: literal.raw, isAlias: false, resolved: literal.resolved, wideGamut: literal.wideGamut };
+        }
+        if (!breakable) {
+            for (var i = 0; i < cycle.length; i++) {
+                leftOut.add(cycle[i]);
+            }
+            errors.push('Circular alias: ' + path + ' \u2014 no value to break it with, left out ' + cycle.length + ' variable' + (cycle.length === 1 ? '' : 's'));
+            continue;
+        }
+        Object.assign(closing.valuesByMode, literals);
+        closing.isAlias = false;
+        for (var mi = 0; mi < modes.length; mi++) {
+            var v = closing.valuesByMode[modes[mi].modeId];
+            if (v && v.isAlias)
+                closing.isAlias = true;
+        }
+        errors.push('Circular alias: ' + path + ' \u2014 broken by inlining ' + closing.name + ' (' + closing.collectionName + ')');
+    }
+    for (var vi = exportedVariables.length - 1; vi >= 0; vi--) {
+        if (leftOut.has(exportedVariables[vi])) {
+            exportedVariableMap.delete(exportedVariables[vi].id);
+            exportedVariables.splice(vi, 1);
+        }
+    }
+}
+// ============================================
+// CSS GENERATION
+// ============================================
+// Generate every output file from a variables snapshot
+function generateCSS(snapshot, options) {
+    var collections = snapshot.collections;
+    var breakpoints = getBreakpoints(options);
+    var snapshotVariables = new Map();
+    for (var i = 0; i < snapshot.variables.length; i++) {
+        snapshotVariables.set(snapshot.variables[i].id, snapshot.variables[i]);
+    }
+    var allVariables = [];
+    var variableMap = new Map();
+    var errors = [];
+    // Track CSS names to detect duplicates and circular references
+    var outputtedCSSNames = new Set();
+    // First pass: collect all variables
+    for (var ci = 0; ci < collections.length; ci++) {
+        var collection = collections[ci];
+        if (collection.remote)
+            continue;
+        var parsed = parseCollectionName(collection.name);
+        var domain = parsed.domain;
+        var layerType = parsed.layerType;
+        for (var vi = 0; vi < collection.variableIds.length; vi++) {
+            var varId = collection.variableIds[vi];
+            var variable = snapshotVariables.get(varId);
+            if (!variable)
+                continue;
+            var cssName = generateCSSName(variable.name, domain, layerType);
+            var valuesByMode = {};
+            for (var mi = 0; mi < collection.modes.length; mi++) {
+                var mode = collection.modes[mi];
+                var rawValue = variable.valuesByMode[mode.modeId];
+                valuesByMode[mode.modeId] = processValue(rawValue, variable.resolvedType, options, snapshot.documentColorProfile);
+            }
+            var isAlias = false;
+            var values = Object.keys(valuesByMode);
+            for (var ki = 0; ki < values.length; ki++) {
+                if (valuesByMode[values[ki]].isAlias) {
+                    isAlias = true;
+                    break;
+                }
+            }
+            var varInfo = {
+                id: variable.id,
+                name: variable.name,
+                description: variable.description || '',
+                collectionId: collection.id,
+                collectionName: collection.name,
+                domain: domain,
+                layerType: layerType,
+                resolvedType: variable.resolvedType,
+                valuesByMode: valuesByMode,
+                isAlias: isAlias,
+                cssName: cssName
+            };
+            allVariables.push(varInfo);
+            variableMap.set(variable.id, varInfo);
+        }
+    }
+    // Second pass: resolve alias names
+    for (var ai = 0; ai < allVariables.length; ai++) {
+        var varInfo = allVariables[ai];
+        var modeIds = Object.keys(varInfo.valuesByMode);
+        for (var mi = 0; mi < modeIds.length; mi++) {
+            var modeId = modeIds[mi];
+            var value = varInfo.valuesByMode[modeId];
+            if (value.isAlias && value.aliasId) {
+                var target = variableMap.get(value.aliasId);
+                if (target) {
+                    value.aliasName = target.cssName;
+                }
+                else {
+                    errors.push('Broken alias: ' + varInfo.name + ' references unknown variable');
+                }
+            }
+        }
+    }
+    // Apply collection/group/pattern selection. Excluded variables stay in
+    // variableMap so aliases pointing at them can be reported or inlined.
+    var collectionModes = new Map();
+    for (var ci = 0; ci < collections.length; ci++) {
+        var modeInfos = [];
+        var defaultModeId = getDefaultMode(collections[ci]).modeId;
+        for (var mi = 0; mi < collections[ci].modes.length; mi++) {
+            var m = collections[ci].modes[mi];
+            modeInfos.push({ modeId: m.modeId, name: m.name, breakpointPx: detectBreakpoint(m.name, breakpoints), isDefault: m.modeId === defaultModeId });
+        }
+        collectionModes.set(collections[ci].id, modeInfos);
+    }
+    // Selection scope: the selected layers' variables and their alias chains
+    var scope = null;
+    if (options.exportScope === 'selection') {
+        if (!snapshot.selection)
+            errors.push('Selection scope: the snapshot has no selection, so nothing is exported');
+        scope = getAliasClosure(snapshot.selection ? snapshot.selection.variableIds : [], variableMap);
+    }
+    var exportedVariables = [];
+    var exportedVariableMap = new Map();
+    for (var ai = 0; ai < allVariables.length; ai++) {
+        if (isVariableSelected(allVariables[ai], options) && (!scope || scope.has(allVariables[ai].id))) {
+            exportedVariables.push(allVariables[ai]);
+            exportedVariableMap.set(allVariables[ai].id, allVariables[ai]);
+        }
+    }
+    var usage;
+    if (snapshot.usage) {
+        var usageById = analyzeUsage(allVariables, variableMap, snapshot.usage);
+        usage = exportedVariables.map(function (v) { return usageById.get(v.id); });
+        if (options.pruneUnused) {
+            exportedVariables = exportedVariables.filter(function (v) {
+                var entry = usageById.get(v.id);
+                return entry.direct > 0 || entry.transitive > 0;
+            });
+            exportedVariableMap = new Map();
+            for (var ai = 0; ai < exportedVariables.length; ai++) {
+                exportedVariableMap.set(exportedVariables[ai].id, exportedVariables[ai]);
+            }
+        }
+    }
+    reportClippedColors(exportedVariables, options, errors);
+    var diagnostics = lintTokens(exportedVariables, variableMap, collectionModes, options, errors);
+    var graph = buildAliasGraph(exportedVariables, allVariables, variableMap, collectionModes, options);
+    var contrastResults = options.contrastAudit ? auditContrast(exportedVariables, variableMap, collectionModes, options) : undefined;
+    var outputCollections = collections;
+    if (options.aliasMode === 'resolved') {
+        // Flat output: every alias becomes its literal value, so nothing can dangle
+        var resolved = resolveAliasChains(exportedVariables, variableMap, collections, collectionModes, errors);
+        exportedVariables = resolved.variables;
+        outputCollections = resolved.collections;
+        exportedVariableMap = new Map();
+        for (var ai = 0; ai < exportedVariables.length; ai++) {
+            exportedVariableMap.set(exportedVariables[ai].id, exportedVariables[ai]);
+        }
+    }
+    else {
+        handleExcludedAliases(exportedVariables, exportedVariableMap, variableMap, collectionModes, options, errors);
+        handleAliasCycles(exportedVariables, exportedVariableMap, variableMap, collections, collectionModes, options, errors);
+    }
+    // Group by collection for ordered output
+    var collectionGroups = groupByCollection(exportedVariables, outputCollections);
+    // Track viewport-relative variables and candidates for reporting
+    var viewportRelativeVars = [];
+    var viewportCandidates = [];
+    // Track proportion variables and candidates for reporting
+    var proportionVars = [];
+    var proportionCandidates = [];
+    // Track non-linear variables and candidates for reporting
+    var nonLinearVars = [];
+    var nonLinearCandidates = [];
+    // Generate CSS with deduplication
+    var sections = [];
+    var css = generateCSSOutput(collectionGroups, outputCollections, options, outputtedCSSNames, errors, viewportRelativeVars, viewportCandidates, proportionVars, proportionCandidates, nonLinearVars, nonLinearCandidates, sections);
+    // Append text styles section if enabled
+    var textStyleCount = 0;
+    var textStyleLines = [];
+    var allTextStyles = [];
+    // Only exported variables are referenced — styles bound to excluded ones fall back to raw values.
+    // Resolved output stays var()-free, so every property uses the style's own value.
+    var textStyleVariables = options.aliasMode === 'resolved' ? new Map() : exportedVariableMap;
+    if (options.includeTextStyles) {
+        allTextStyles = snapshot.textStyles || [];
+        if (scope) {
+            var selectedStyles = snapshot.selection ? snapshot.selection.textStyles : [];
+            allTextStyles = allTextStyles.filter(function (style) { return selectedStyles.indexOf(style.name) !== -1; });
+        }
+        textStyleCount = allTextStyles.length;
+        textStyleLines = generateTextStyleCSS(allTextStyles, options, textStyleVariables);
+        if (textStyleLines.length > 0) {
+            css += '\n' + textStyleLines.join('\n');
+        }
+    }
+    var files;
+    if (options.splitMode && options.splitMode !== 'none') {
+        files = buildSplitFiles(sections, textStyleLines, exportedVariables, exportedVariableMap, options);
+    }
+    else {
+        files = [{ name: 'tokens.css', content: css }];
+    }
+    var additionalFormats = options.additionalFormats || [];
+    // Screens and bp() follow the breakpoint modes the CSS uses
+    var documentBreakpoints = getDocumentBreakpoints(collectionGroups, outputCollections, options);
+    if (additionalFormats.indexOf('dtcg') !== -1) {
+        files.push({ name: 'tokens.tokens.json', content: generateDTCGJSON(collectionGroups, outputCollections, variableMap, options, errors) });
+    }
+    if (additionalFormats.indexOf('scss') !== -1) {
+        files.push({ name: '_tokens.scss', content: generateSCSS(collectionGroups, outputCollections, outputtedCSSNames, documentBreakpoints, options) });
+    }
+    if (additionalFormats.indexOf('tailwind-v4') !== -1 || additionalFormats.indexOf('tailwind-v3') !== -1) {
+        var tailwindTokens = collectTailwindTokens(collectionGroups, outputCollections, outputtedCSSNames);
+        if (additionalFormats.indexOf('tailwind-v4') !== -1) {
+            files.push({ name: 'tailwind-theme.css', content: generateTailwindV4Theme(tailwindTokens, documentBreakpoints, options) });
+        }
+        if (additionalFormats.indexOf('tailwind-v3') !== -1) {
+            files.push({ name: 'tailwind.tokens.js', content: generateTailwindV3Config(tailwindTokens, documentBreakpoints, options) });
+        }
+    }
+    if (additionalFormats.indexOf('typescript') !== -1) {
+        files.push({ name: 'tokens.ts', content: generateTypeScriptTokens(collectionGroups, outputCollections, variableMap, outputtedCSSNames, errors) });
+    }
+    if (additionalFormats.indexOf('mermaid') !== -1) {
+        files.push({ name: 'tokens.mmd', content: generateMermaidGraph(graph) });
+    }
+    if (additionalFormats.indexOf('dot') !== -1) {
+        files.push({ name: 'tokens.dot', content: generateDotGraph(graph) });
+    }
+    if (additionalFormats.indexOf('html') !== -1) {
+        files.push({ name: 'tokens.html', content: generateStyleGuideHTML(css, graph, variableMap, outputtedCSSNames, proportionVars, allTextStyles, textStyleVariables, documentBreakpoints, options) });
+    }
+    if (contrastResults) {
+        files.push({ name: 'contrast-report.csv', content: generateContrastCSV(contrastResults) });
+    }
+    var nonRemoteCount = 0;
+    var excludedCollections = options.excludedCollections || [];
+    for (var i = 0; i < collections.length; i++) {
+        if (!collections[i].remote && excludedCollections.indexOf(collections[i].id) === -1)
+            nonRemoteCount++;
+    }
+    return {
+        css: css,
+        files: files,
+        graph: graph,
+        stats: {
+            collections: nonRemoteCount,
+            variables: exportedVariables.length,
+            errors: errors,
+            viewportRelativeVars: viewportRelativeVars,
+            viewportCandidates: viewportCandidates,
+            proportionVars: proportionVars,
+            proportionCandidates: proportionCandidates,
+            nonLinearVars: nonLinearVars,
+            nonLinearCandidates: nonLinearCandidates,
+            textStyleCount: textStyleCount,
+            contrastResults: contrastResults,
+            diagnostics: diagnostics,
+            usage: usage
+        }
+    };
+}
+function getVariableGroup(variableName) {
+    var lastSlash = variableName.lastIndexOf('/');
+    if (lastSlash === -1)
+        return '';
+    return variableName.substring(0, lastSlash);
+}
+function generateCSSName(varName, domain, layerType) {
+    // Transform Figma variable name to CSS custom property name
+    // IMPORTANT: Preserve intentional double hyphens (e.g., "stroke--width")
+    var cssName = varName
+        .toLowerCase()
+        .replace(/\//g, '-') // Path separator to hyphen
+        .replace(/\./g, '-') // Dots to hyphens
+        .replace(/,/g, '-') // Commas to hyphens
+        .replace(/\s+/g, '-') // Spaces to hyphens
+        .replace(/[^a-z0-9-]/g, '-') // Other special chars to hyphens
+        .replace(/-{3,}/g, '--') // Collapse 3+ hyphens to 2 (preserve intentional --)
+        .replace(/^-+|-+$/g, ''); // Trim leading/trailing hyphens
+    // Domain prefix logic:
+    // - Foundations: Add domain prefix (e.g., "typo-type-family-primary")
+    // - Aliases/Aliases Extended: Add domain prefix (same structure as foundations)
+    // - Mappings: NO domain prefix (semantic names like "button-background")
+    // - Other: Check if name already has domain-like prefix
+    if (layerType === 'mappings') {
+        // Mappings are semantic - no domain prefix
+        return '--' + cssName;
+    }
+    if (layerType === 'foundations' || layerType === 'aliases' || layerType === 'aliases-extended') {
+        // Add domain prefix if not already present
+        if (cssName.indexOf(domain + '-') !== 0 && cssName !== domain) {
+            cssName = domain + '-' + cssName;
+        }
+        return '--' + cssName;
+    }
+    // For 'other' layer type, check if it looks like it already has a domain prefix
+    // Common domains: typo, space, color, dimension, static, etc.
+    var commonDomains = ['typo', 'space', 'color', 'dimension', 'static', 'size', 'radius', 'border'];
+    var hasExistingDomain = false;
+    for (var i = 0; i < commonDomains.length; i++) {
+        if (cssName.indexOf(commonDomains[i] + '-') === 0) {
+            hasExistingDomain = true;
+            break;
+        }
+    }
+    if (!hasExistingDomain && cssName.indexOf(domain + '-') !== 0) {
+        cssName = domain + '-' + cssName;
+    }
+    return '--' + cssName;
+}
+function processValue(rawValue, type, options, colorProfile) {
+    // Check if it's an alias
+    if (rawValue && typeof rawValue === 'object' && 'type' in rawValue && rawValue.type === 'VARIABLE_ALIAS') {
+        return {
+            raw: rawValue,
+            isAlias: true,
+            aliasId: rawValue.id,
+            resolved: null
+        };
+    }
+    // Process based on type
+    var resolved = null;
+    if (type === 'COLOR') {
+        if (rawValue && typeof rawValue === 'object' && 'r' in rawValue) {
+            // Every format works from sRGB; `raw` keeps it so DTCG and TypeScript hex match the CSS
+            var srgb = toSRGB(rawValue, colorProfile);
+            var wideGamut = options.colorFormat === 'display-p3' ? rgbToDisplayP3(toDisplayP3(rawValue, colorProfile)) : undefined;
+            return {
+                raw: srgb,
+                isAlias: false,
+                resolved: formatColor(srgb, options.colorFormat),
+                wideGamut: wideGamut
+            };
+        }
+    }
+    else if (type === 'FLOAT') {
+        if (typeof rawValue === 'number') {
+            resolved = rawValue;
+        }
+    }
+    else if (type === 'STRING') {
+        if (typeof rawValue === 'string') {
+            resolved = rawValue;
+        }
+    }
+    else if (type === 'BOOLEAN') {
+        resolved = rawValue ? 1 : 0;
+    }
+    return {
+        raw: rawValue,
+        isAlias: false,
+        resolved: resolved
+    };
+}
+// ============================================
+// COLOR FORMATS
+// ============================================
+// hex, rgb() and hsl() clip colors of a Display P3 file that fall outside sRGB
+function reportClippedColors(variables, options, errors) {
+    if (options.colorFormat === 'oklch')
+        return;
+    var clipped = [];
+    for (var vi = 0; vi < variables.length; vi++) {
+        if (variables[vi].resolvedType !== 'COLOR')
+            continue;
+        var modeIds = Object.keys(variables[vi].valuesByMode);
+        for (var mi = 0; mi < modeIds.length; mi++) {
+            var color = variables[vi].valuesByMode[modeIds[mi]].raw;
+            if (variables[vi].valuesByMode[modeIds[mi]].isAlias || !color)
+                continue;
+            if ([color.r, color.g, color.b].some(function (c) { return c < -0.0005 || c > 1.0005; })) {
+                clipped.push(variables[vi].name);
+                break;
+            }
+        }
+    }
+    if (clipped.length === 0)
+        return;
+    var fallback = options.colorFormat === 'display-p3' ? 'sRGB fallbacks' : options.colorFormat + ' values';
+    errors.push('Outside sRGB, clipped in the ' + fallback + ': ' + clipped.join(', ') +
+        (options.colorFormat === 'display-p3' ? '' : ' — use oklch or display-p3 to keep them'));
+}
+// Linear-light conversions between sRGB and Display P3 (CSS Color 4, D65 white in both)
+var P3_TO_SRGB = [
+    [1.2249401762805598, -0.22494017628055996, 0],
+    [-0.04205695470968816, 1.0420569547096881, 0],
+    [-0.019637554590334432, -0.07863604555063188, 1.0982736001409663]
+];
+var SRGB_TO_P3 = [
+    [0.8224619687143623, 0.17753803128563775, 0],
+    [0.033194198850967, 0.9668058011490331, 0],
+    [0.017082631578947, 0.0723974407494, 0.9105199276715]
+];
+// sRGB transfer curve, shared by Display P3. Sign-preserving so out-of-gamut channels survive.
+function toLinear(c) {
+    var abs = Math.abs(c);
+    var linear = abs <= 0.04045 ? abs / 12.92 : Math.pow((abs + 0.055) / 1.055, 2.4);
+    return c < 0 ? -linear : linear;
+}
+function fromLinear(c) {
+    var abs = Math.abs(c);
+    var encoded = abs <= 0.0031308 ? abs * 12.92 : 1.055 * Math.pow(abs, 1 / 2.4) - 0.055;
+    return c < 0 ? -encoded : encoded;
+}
+function convertGamut(color, matrix) {
+    var lr = toLinear(color.r), lg = toLinear(color.g), lb = toLinear(color.b);
+    return {
+        r: fromLinear(matrix[0][0] * lr + matrix[0][1] * lg + matrix[0][2] * lb),
+        g: fromLinear(matrix[1][0] * lr + matrix[1][1] * lg + matrix[1][2] * lb),
+        b: fromLinear(matrix[2][0] * lr + matrix[2][1] * lg + matrix[2][2] * lb),
+        a: color.a
+    };
+}
+// Figma color in the document's profile → sRGB, unclipped (P3 colors outside sRGB go past 0–1)
+function toSRGB(color, colorProfile) {
+    if (colorProfile === 'DISPLAY_P3')
+        return convertGamut(color, P3_TO_SRGB);
+    return { r: color.r, g: color.g, b: color.b, a: color.a };
+}
+function toDisplayP3(color, colorProfile) {
+    if (colorProfile === 'DISPLAY_P3')
+        return { r: color.r, g: color.g, b: color.b, a: color.a };
+    return convertGamut(color, SRGB_TO_P3);
+}
+function clampChannel(c) {
+    return Math.min(1, Math.max(0, c));
+}
+// " / 50%" for translucent colors
+function formatAlpha(color) {
+    return color.a !== undefined && color.a < 1 ? ' / ' + round(color.a * 100, 1) + '%' : '';
+}
+// hex, rgb() and hsl() can only hold sRGB: out-of-gamut channels are clipped
+function formatColor(color, colorFormat) {
+    if (colorFormat === 'rgb')
+        return rgbToRgbFunction(color);
+    if (colorFormat === 'hsl')
+        return rgbToHsl(color);
+    if (colorFormat === 'oklch')
+        return rgbToOklch(color);
+    return rgbToHex(color);
+}
+function rgbToHex(color) {
+    function toHex(n) {
+        var hex = Math.round(clampChannel(n) * 255).toString(16);
+        return hex.length === 1 ? '0' + hex : hex;
+    }
+    var hex = '#' + toHex(color.r) + toHex(color.g) + toHex(color.b);
+    if (color.a !== undefined && color.a < 1) {
+        return hex + toHex(color.a);
+    }
+    return hex;
+}
+function rgbToRgbFunction(color) {
+    return 'rgb(' + Math.round(clampChannel(color.r) * 255) + ' ' + Math.round(clampChannel(color.g) * 255) + ' ' +
+        Math.round(clampChannel(color.b) * 255) + formatAlpha(color) + ')';
+}
+function rgbToHsl(color) {
+    var r = clampChannel(color.r), g = clampChannel(color.g), b = clampChannel(color.b);
+    var max = Math.max(r, g, b), min = Math.min(r, g, b);
+    var l = (max + min) / 2;
+    var d = max - min;
+    var h = 0, sat = 0;
+    if (d > 0) {
+        sat = d / (1 - Math.abs(2 * l - 1));
+        if (max === r)
+            h = ((g - b) / d + 6) % 6;
+        else if (max === g)
+            h = (b - r) / d + 2;
+        else
+            h = (r - g) / d + 4;
+        h *= 60;
+    }
+    return 'hsl(' + round(h, 1) + ' ' + round(sat * 100, 1) + '% ' + round(l * 100, 1) + '%' + formatAlpha(color) + ')';
+}
+// sRGB → OKLab (Björn Ottosson's LMS matrices) → OKLCH. Unclipped input keeps P3 colors exact.
+function rgbToOklch(color) {
+    var lr = toLinear(color.r), lg = toLinear(color.g), lb = toLinear(color.b);
+    var l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+    var m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+    var s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+    var L = 0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s;
+    var A = 1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s;
+    var B = 0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s;
+    var C = Math.sqrt(A * A + B * B);
+    // Grays have no meaningful hue
+    var H = C < 0.0002 ? 0 : (Math.atan2(B, A) * 180 / Math.PI + 360) % 360;
+    return 'oklch(' + round(L * 100, 2) + '% ' + round(C, 4) + ' ' + round(H, 2) + formatAlpha(color) + ')';
+}
+function rgbToDisplayP3(color) {
+    return 'color(display-p3 ' + round(clampChannel(color.r), 4) + ' ' + round(clampChannel(color.g), 4) + ' ' +
+        round(clampChannel(color.b), 4) + formatAlpha(color) + ')';
+}
+// ============================================
+// CONTRAST AUDIT
+// ============================================
+// WCAG 2.x relative luminance of an sRGB color
+function getRelativeLuminance(color) {
+    function channel(c) {
+        c = clampChannel(c);
+        return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+    }
+    return 0.2126 * channel(color.r) + 0.7152 * channel(color.g) + 0.0722 * channel(color.b);
+}
+function getWCAGContrast(foreground, background) {
+    var l1 = getRelativeLuminance(foreground);
+    var l2 = getRelativeLuminance(background);
+    return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+}
+// APCA 0.0.98G-4g lightness contrast (Lc) of text on a background
+function getAPCAContrast(text, background) {
+    function screenLuminance(color) {
+        var y = 0.2126729 * Math.pow(clampChannel(color.r), 2.4) +
+            0.7151522 * Math.pow(clampChannel(color.g), 2.4) +
+            0.0721750 * Math.pow(clampChannel(color.b), 2.4);
+        // Soft clamp near black
+        return y < 0.022 ? y + Math.pow(0.022 - y, 1.414) : y;
+    }
+    var yText = screenLuminance(text);
+    var yBackground = screenLuminance(background);
+    if (Math.abs(yBackground - yText) < 0.0005)
+        return 0;
+    if (yBackground > yText) {
+        // Dark text on a light background
+        var sapc = (Math.pow(yBackground, 0.56) - Math.pow(yText, 0.57)) * 1.14;
+        return sapc < 0.1 ? 0 : (sapc - 0.027) * 100;
+    }
+    var reverse = (Math.pow(yBackground, 0.65) - Math.pow(yText, 0.62)) * 1.14;
+    return reverse > -0.1 ? 0 : (reverse + 0.027) * 100;
+}
+// Translucent text is seen blended over its background; backgrounds count as opaque
+function blendOver(color, background) {
+    var a = color.a === undefined ? 1 : color.a;
+    return {
+        r: color.r * a + background.r * (1 - a),
+        g: color.g * a + background.g * (1 - a),
+        b: color.b * a + background.b * (1 - a)
+    };
+}
+// Foreground/background pairs from options.contrastPairs. Wildcards shared by both
+// patterns must capture the same text; otherwise every match pairs with every match.
+function findContrastPairs(variables, options) {
+    var rules = options.contrastPairs && options.contrastPairs.length > 0 ? options.contrastPairs : [{ foreground: '*/text', background: '*/background' }];
+    var pairs = [];
+    var seen = new Set();
+    for (var ri = 0; ri < rules.length; ri++) {
+        var foregroundPattern = globToRegExp(String(rules[ri].foreground).trim(), true);
+        var backgroundPattern = globToRegExp(String(rules[ri].background).trim(), true);
+        for (var fi = 0; fi < variables.length; fi++) {
+            if (variables[fi].resolvedType !== 'COLOR')
+                continue;
+            var foregroundMatch = foregroundPattern.exec(variables[fi].name);
+            if (!foregroundMatch)
+                continue;
+            for (var bi = 0; bi < variables.length; bi++) {
+                if (bi === fi || variables[bi].resolvedType !== 'COLOR')
+                    continue;
+                var backgroundMatch = backgroundPattern.exec(variables[bi].name);
+                if (!backgroundMatch)
+                    continue;
+                if (foregroundMatch.length > 1 && backgroundMatch.length > 1 &&
+                    foregroundMatch.slice(1).join('\u0000').toLowerCase() !== backgroundMatch.slice(1).join('\u0000').toLowerCase())
+                    continue;
+                var key = variables[fi].id + '|' + variables[bi].id;
+                if (seen.has(key))
+                    continue;
+                seen.add(key);
+                pairs.push({ foreground: variables[fi], background: variables[bi] });
+            }
+        }
+    }
+    return pairs;
+}
+// Contrast of every pair in every mode of its theme collection (the foreground's if it
+// has several modes, else the background's), following aliases into each mode
+function auditContrast(variables, variableMap, collectionModes, options) {
+    var minRatio = options.contrastMinRatio !== undefined ? options.contrastMinRatio : 4.5;
+    var minLc = options.contrastMinLc !== undefined ? options.contrastMinLc : 60;
+    var results = [];
+    function colorInMode(variable, mode) {
+        var ownMode = pickTargetMode(mode, collectionModes.get(variable.collectionId) || []);
+        if (!ownMode)
+            return null;
+        var value = variable.valuesByMode[ownMode.modeId];
+        var literal = value ? resolveAliasValue(value, ownMode, variableMap, collectionModes) : null;
+        return literal && literal.raw && typeof literal.raw === 'object' && 'r' in literal.raw ? literal.raw : null;
+    }
+    var pairs = findContrastPairs(variables, options);
+    for (var pi = 0; pi < pairs.length; pi++) {
+        var foreground = pairs[pi].foreground;
+        var background = pairs[pi].background;
+        var modes = collectionModes.get(foreground.collectionId) || [];
+        if (modes.length < 2)
+            modes = collectionModes.get(background.collectionId) || modes;
+        for (var mi = 0; mi < modes.length; mi++) {
+            var foregroundColor = colorInMode(foreground, modes[mi]);
+            var backgroundColor = colorInMode(background, modes[mi]);
+            if (!foregroundColor || !backgroundColor)
+                continue;
+            var seenColor = blendOver(foregroundColor, backgroundColor);
+            var ratio = round(getWCAGContrast(seenColor, backgroundColor), 2);
+            var lc = round(getAPCAContrast(seenColor, backgroundColor), 1);
+            results.push({
+                foreground: foreground.name,
+                background: background.name,
+                mode: modes[mi].name,
+                foregroundColor: rgbToHex(foregroundColor),
+                backgroundColor: rgbToHex(backgroundColor),
+                ratio: ratio,
+                lc: lc,
+                passes: ratio >= minRatio && Math.abs(lc) >= minLc
+            });
+        }
+    }
+    return results;
+}
+function generateContrastCSV(results) {
+    function cell(value) {
+        var text = String(value);
+        return /[",\n]/.test(text) ? '"' + text.replace(/"/g, '""') + '"' : text;
+    }
+    var rows = ['foreground,background,mode,foreground color,background color,wcag ratio,apca lc,passes'];
+    for (var i = 0; i < results.length; i++) {
+        var r = results[i];
+        rows.push([r.foreground, r.background, r.mode, r.foregroundColor, r.backgroundColor, r.ratio, r.lc, r.passes ? 'yes' : 'no'].map(cell).join(','));
+    }
+    return rows.join('\n') + '\n';
+}
+// ============================================
+// TOKEN LINT
+// ============================================
+// Check the 4-layer convention parseCollectionName reads (Foundations → Aliases →
+// Aliases Extended → Mappings) and the naming patterns. Rules set to 'off' are skipped.
+function lintTokens(variables, variableMap, collectionModes, options, errors) {
+    var severities = Object.assign({}, DEFAULT_LINT_RULES, options.lintRules || {});
+    var diagnostics = [];
+    function report(rule, variable, message) {
+        var severity = severities[rule];
+        if (!severity || severity === 'off')
+            return;
+        diagnostics.push({ rule: rule, severity: severity, variable: variable.name, collection: variable.collectionName, message: message });
+    }
+    var namePatterns = [];
+    var patternSources = normalizePatterns(options.lintNamePatterns);
+    if (patternSources.length === 0)
+        patternSources = [DEFAULT_NAME_PATTERN];
+    if (!severities['naming'] || severities['naming'] === 'off')
+        patternSources = [];
+    for (var pi = 0; pi < patternSources.length; pi++) {
+        try {
+            namePatterns.push(new RegExp(patternSources[pi]));
+        }
+        catch (e) {
+            errors.push('Naming rule: ' + patternSources[pi] + ' is not a valid regular expression');
+        }
+    }
+    for (var vi = 0; vi < variables.length; vi++) {
+        var variable = variables[vi];
+        var modes = collectionModes.get(variable.collectionId) || [];
+        // Alias targets by layer, once per target
+        var targets = [];
+        for (var mi = 0; mi < modes.length; mi++) {
+            var value = variable.valuesByMode[modes[mi].modeId];
+            var target = value && value.isAlias && value.aliasId ? variableMap.get(value.aliasId) : undefined;
+            if (target && targets.indexOf(target) === -1)
+                targets.push(target);
+        }
+        for (var ti = 0; ti < targets.length; ti++) {
+            if (variable.layerType === 'foundations') {
+                report('foundation-alias', variable, 'Aliases ' + targets[ti].name + ' — Foundations should hold raw values');
+            }
+            else if (variable.layerType === 'mappings' && targets[ti].layerType === 'foundations') {
+                report('mapping-to-foundation', variable, 'References the Foundations token ' + targets[ti].name + ' directly — go through an Aliases token');
+            }
+        }
+        if (variable.layerType === 'aliases' && hasModeVariance(variable, modes, options)) {
+            report('alias-mode-variance', variable, 'Changes between ' + modes.map(function (m) { return m.name; }).join(', ') + ' — Aliases are single-mode, move it to Aliases Extended');
+        }
+        if (detectModeType(modes) === 'theme') {
+            var lightMode = findThemeMode(modes, options.themeLightMode, 'light');
+            var darkMode = findThemeMode(modes, options.themeDarkMode, 'dark');
+            var light = lightMode && variable.valuesByMode[lightMode.modeId];
+            var dark = darkMode && variable.valuesByMode[darkMode.modeId];
+            var lightLiteral = light ? resolveAliasValue(light, lightMode, variableMap, collectionModes) : null;
+            var darkLiteral = dark ? resolveAliasValue(dark, darkMode, variableMap, collectionModes) : null;
+            if (lightMode !== darkMode && lightLiteral && darkLiteral && JSON.stringify(lightLiteral.raw) === JSON.stringify(darkLiteral.raw)) {
+                report('identical-theme-values', variable, 'Same value in ' + lightMode.name + ' and ' + darkMode.name);
+            }
+        }
+        var named = namePatterns.length === 0;
+        for (var ni = 0; ni < namePatterns.length && !named; ni++) {
+            named = namePatterns[ni].test(variable.name);
+        }
+        if (!named) {
+            report('naming', variable, 'Name doesn\'t match ' + patternSources.join(' or '));
+        }
+    }
+    return diagnostics;
+}
+// ============================================
+// TOKEN USAGE
+// ============================================
+// IDs of the given variables and every variable their alias chains reach, in any mode
+function getAliasClosure(ids, variableMap) {
+    var closure = new Set();
+    var stack = [];
+    for (var i = 0; i < ids.length; i++) {
+        if (variableMap.has(ids[i]) && !closure.has(ids[i])) {
+            closure.add(ids[i]);
+            stack.push(ids[i]);
+        }
+    }
+    while (stack.length > 0) {
+        var current = variableMap.get(stack.pop());
+        var modeIds = Object.keys(current.valuesByMode);
+        for (var mi = 0; mi < modeIds.length; mi++) {
+            var value = current.valuesByMode[modeIds[mi]];
+            if (!value.isAlias || !value.aliasId || closure.has(value.aliasId) || !variableMap.has(value.aliasId))
+                continue;
+            closure.add(value.aliasId);
+            stack.push(value.aliasId);
+        }
+    }
+    return closure;
+}
+// Direct use from the document scan, and transitive use: the number of directly used
+// variables whose alias chains (in any mode) reach the variable
+function analyzeUsage(variables, variableMap, usage) {
+    var result = new Map();
+    for (var i = 0; i < variables.length; i++) {
+        var v = variables[i];
+        result.set(v.id, { name: v.name, cssName: v.cssName, collection: v.collectionName, direct: usage[v.id] || 0, transitive: 0 });
+    }
+    for (var i = 0; i < variables.length; i++) {
+        if (!usage[variables[i].id])
+            continue;
+        getAliasClosure([variables[i].id], variableMap).forEach(function (id) {
+            if (id !== variables[i].id)
+                result.get(id).transitive++;
+        });
+    }
+    return result;
+}
+function groupByCollection(variables, collections) {
+    var groups = new Map();
+    for (var i = 0; i < variables.length; i++) {
+        var v = variables[i];
+        var existing = groups.get(v.collectionId);
+        if (!existing) {
+            existing = [];
+        }
+        existing.push(v);
+        groups.set(v.collectionId, existing);
+    }
+    return groups;
+}
+function generateCSSOutput(collectionGroups, collections, options, outputtedCSSNames, errors, viewportRelativeVars, viewportCandidates, proportionVars, proportionCandidates, nonLinearVars, nonLinearCandidates, sections) {
+    var lines = generateHeaderLines(options);
+    var sortedCollections = sortCollectionsForOutput(collectionGroups, collections);
+    var breakpoints = getBreakpoints(options);
+    for (var si = 0; si < sortedCollections.length; si++) {
+        var collection = sortedCollections[si];
+        var variables = collectionGroups.get(collection.id);
+        if (!variables || variables.length === 0)
+            continue;
+        var parsed = parseCollectionName(collection.name);
+        var modeInfos = [];
+        for (var mi = 0; mi < collection.modes.length; mi++) {
+            var m = collection.modes[mi];
+            modeInfos.push({
+                modeId: m.modeId,
+                name: m.name,
+                breakpointPx: detectBreakpoint(m.name, breakpoints)
+            });
+        }
+        var modeType = detectModeType(modeInfos);
+        var section = {
+            collectionId: collection.id,
+            fileName: getSplitFileName(collection, modeType, options),
+            lines: [],
+            themeSelectorBlocks: []
+        };
+        // Section header
+        section.lines.push('/* --------------------------------------------------------------------------');
+        section.lines.push('   ' + collection.name.toUpperCase());
+        section.lines.push('   -------------------------------------------------------------------------- */');
+        section.lines.push('');
+        var splitThemes = options.splitThemeFiles && options.splitMode && options.splitMode !== 'none';
+        // The display-p3 pass renders the section again from the same starting state
+        var namesBefore = new Set(outputtedCSSNames);
+        var sectionLines;
+        if (modeType === 'breakpoint') {
+            sectionLines = generateBreakpointCSS(collection, variables, options, outputtedCSSNames, errors, viewportRelativeVars, viewportCandidates, proportionVars, proportionCandidates, nonLinearVars, nonLinearCandidates);
+        }
+        else if (modeType === 'theme') {
+            sectionLines = generateThemeCSS(collection, variables, options, outputtedCSSNames, errors, splitThemes ? section.themeSelectorBlocks : undefined);
+        }
+        else if (modeType === 'variant') {
+            sectionLines = generateVariantCSS(collection, variables, options, outputtedCSSNames, errors);
+        }
+        else {
+            sectionLines = generateSingleModeCSS(collection, variables, options, outputtedCSSNames, errors);
+        }
+        // Wide-gamut colors: same blocks with color(display-p3 …) values, under @supports
+        if (options.colorFormat === 'display-p3') {
+            var p3Options = Object.assign({}, options, { colorGamut: 'p3' });
+            var p3Names = new Set(namesBefore);
+            var p3Blocks = [];
+            var p3Lines;
+            if (modeType === 'breakpoint') {
+                p3Lines = generateBreakpointCSS(collection, variables, p3Options, p3Names, [], [], [], [], [], [], []);
+            }
+            else if (modeType === 'theme') {
+                p3Lines = generateThemeCSS(collection, variables, p3Options, p3Names, [], splitThemes ? p3Blocks : undefined);
+            }
+            else if (modeType === 'variant') {
+                p3Lines = generateVariantCSS(collection, variables, p3Options, p3Names, []);
+            }
+            else {
+                p3Lines = generateSingleModeCSS(collection, variables, p3Options, p3Names, []);
+            }
+            sectionLines = sectionLines.concat(getWideGamutLines(sectionLines, p3Lines));
+            for (var bi = 0; bi < section.themeSelectorBlocks.length && bi < p3Blocks.length; bi++) {
+                var themeBlock = section.themeSelectorBlocks[bi];
+                themeBlock.lines = themeBlock.lines.concat(getWideGamutLines(themeBlock.lines, p3Blocks[bi].lines));
+            }
+        }
+        for (var li = 0; li < sectionLines.length; li++) {
+            section.lines.push(sectionLines[li]);
+        }
+        section.lines.push('');
+        for (var li = 0; li < section.lines.length; li++) {
+            lines.push(section.lines[li]);
+        }
+        // Moved selector blocks still appear in the combined preview, right after their section
+        for (var bi = 0; bi < section.themeSelectorBlocks.length; bi++) {
+            var blockLines = section.themeSelectorBlocks[bi].lines;
+            for (var li = 0; li < blockLines.length; li++) {
+                lines.push(blockLines[li]);
+            }
+            lines.push('');
+        }
+        sections.push(section);
+    }
+    // Forced colors come last so they override every theme and variant block
+    var forcedColorLines = generateForcedColorsCSS(options, outputtedCSSNames, errors);
+    if (forcedColorLines.length > 0) {
+        var forcedSection = { collectionId: '', fileName: 'forced-colors.css', lines: [], themeSelectorBlocks: [] };
+        forcedSection.lines.push('/* --------------------------------------------------------------------------');
+        forcedSection.lines.push('   FORCED COLORS');
+        forcedSection.lines.push('   -------------------------------------------------------------------------- */');
+        forcedSection.lines.push('');
+        for (var li = 0; li < forcedColorLines.length; li++) {
+            forcedSection.lines.push(forcedColorLines[li]);
+        }
+        forcedSection.lines.push('');
+        for (var li = 0; li < forcedSection.lines.length; li++) {
+            lines.push(forcedSection.lines[li]);
+        }
+        sections.push(forcedSection);
+    }
+    return lines.join('\n');
+}
+// The lines of the display-p3 pass that differ from the sRGB pass, inside their blocks,
+// wrapped in @supports so browsers without color() keep the sRGB values
+function getWideGamutLines(fallbackLines, p3Lines) {
+    if (fallbackLines.length !== p3Lines.length)
+        return [];
+    var kept = [];
+    var openBlocks = [];
+    var writtenBlocks = 0;
+    for (var i = 0; i < p3Lines.length; i++) {
+        var line = p3Lines[i];
+        var trimmed = line.trim();
+        if (/\{$/.test(trimmed)) {
+            openBlocks.push(line);
+        }
+        else if (trimmed === '}') {
+            if (writtenBlocks === openBlocks.length && writtenBlocks > 0) {
+                kept.push(line);
+                writtenBlocks--;
+            }
+            openBlocks.pop();
+        }
+        else if (line !== fallbackLines[i] && trimmed.indexOf('--') === 0) {
+            // Open the enclosing blocks the first time one of their declarations changes
+            for (; writtenBlocks < openBlocks.length; writtenBlocks++) {
+                kept.push(openBlocks[writtenBlocks]);
+            }
+            kept.push(line);
+        }
+    }
+    if (kept.length === 0)
+        return [];
+    var wrapped = ['', '@supports (color: color(display-p3 0 0 0)) {'];
+    for (var ki = 0; ki < kept.length; ki++) {
+        wrapped.push('  ' + kept[ki]);
+    }
+    wrapped.push('}');
+    return wrapped;
+}
+// Collections that have exported variables, sorted by domain, then
+// Foundations first, then Aliases, Aliases Extended, Mappings
+function sortCollectionsForOutput(collectionGroups, collections) {
+    var sortedCollections = [];
+    for (var i = 0; i < collections.length; i++) {
+        var c = collections[i];
+        if (!c.remote && collectionGroups.has(c.id)) {
+            sortedCollections.push(c);
+        }
+    }
+    sortedCollections.sort(function (a, b) {
+        function layerOrder(name) {
+            var lower = name.toLowerCase();
+            if (lower.indexOf('foundation') !== -1)
+                return 0;
+            if (lower.indexOf('alias') !== -1 && lower.indexOf('extended') === -1)
+                return 1;
+            if (lower.indexOf('extended') !== -1)
+                return 2;
+            if (lower.indexOf('mapping') !== -1)
+                return 3;
+            return 4;
+        }
+        var parsedA = parseCollectionName(a.name);
+        var parsedB = parseCollectionName(b.name);
+        if (parsedA.domain !== parsedB.domain)
+            return parsedA.domain.localeCompare(parsedB.domain);
+        return layerOrder(a.name) - layerOrder(b.name);
+    });
+    return sortedCollections;
+}
+function generateHeaderLines(options, fileName) {
+    var lines = [];
+    var timestamp = new Date().toISOString();
+    lines.push('/* ==========================================================================');
+    lines.push('   DESIGN TOKENS — Generated from Figma Variables');
+    if (fileName) {
+        lines.push('   File: ' + fileName);
+    }
+    if (options.includeTimestamp) {
+        lines.push('   Date: ' + timestamp);
+    }
+    if (options.outputMode === 'container') {
+        var containerName = options.containerName ? ' ' + options.containerName : '';
+        lines.push('   Mode: Container (clamp + @container' + containerName + ')');
+        lines.push('   Needs an ancestor with container-type: inline-size' + (containerName ? '; container-name:' + containerName : ''));
+    }
+    else {
+        lines.push('   Mode: ' + (options.outputMode === 'fluid' ? 'Fluid (clamp)' : 'Fixed (per-breakpoint)'));
+    }
+    lines.push('   Direction: ' + (options.breakpointDirection === 'mobile-first' ? 'Mobile-first (min-width)' : 'Desktop-first (max-width)'));
+    if (options.lengthUnit === 'rem') {
+        var pxDomains = options.pxDomains && options.pxDomains.length > 0 ? ', px for ' + options.pxDomains.join(', ') : '';
+        lines.push('   Units: rem (1rem = ' + getRootFontSize(options) + 'px)' + pxDomains);
+    }
+    if (options.mediaQueryUnit === 'em' && options.outputMode !== 'container') {
+        lines.push('   Media queries: em (1em = 16px browser default)');
+    }
+    lines.push('   ========================================================================== */');
+    lines.push('');
+    return lines;
+}
+// ============================================
+// MULTI-FILE EXPORT
+// ============================================
+// Lowercase, hyphen-separated identifier for file names and selectors
+function slugify(text) {
+    return text
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '');
+}
+function getSplitFileName(collection, modeType, options) {
+    var parsed = parseCollectionName(collection.name);
+    if (options.splitMode === 'domain')
+        return (slugify(parsed.domain) || 'tokens') + '.css';
+    if (options.splitMode === 'layer')
+        return parsed.layerType + '.css';
+    if (options.splitMode === 'mode') {
+        if (modeType === 'breakpoint')
+            return 'responsive.css';
+        if (modeType === 'theme')
+            return 'theme.css';
+        if (modeType === 'variant')
+            return 'variants.css';
+        return 'static.css';
+    }
+    return '';
+}
+// Assemble split files plus an index.css that @imports them in dependency order:
+// a file is imported after every file its aliases point into
+function buildSplitFiles(sections, textStyleLines, exportedVariables, exportedVariableMap, options) {
+    var fileOrder = [];
+    var fileLines = new Map();
+    var collectionFiles = new Map();
+    var deps = new Map();
+    function addLines(fileName, lines) {
+        var existing = fileLines.get(fileName);
+        if (!existing) {
+            existing = generateHeaderLines(options, fileName);
+            fileLines.set(fileName, existing);
+            fileOrder.push(fileName);
+            deps.set(fileName, []);
+        }
+        for (var i = 0; i < lines.length; i++) {
+            existing.push(lines[i]);
+        }
+    }
+    function addDependency(fileName, dependsOn) {
+        if (fileName === dependsOn)
+            return;
+        var list = deps.get(fileName);
+        if (list && list.indexOf(dependsOn) === -1)
+            list.push(dependsOn);
+    }
+    for (var si = 0; si < sections.length; si++) {
+        var section = sections[si];
+        addLines(section.fileName, section.lines);
+        collectionFiles.set(section.collectionId, section.fileName);
+    }
+    // Theme selector files come after their base file so explicit selectors override it
+    for (var si = 0; si < sections.length; si++) {
+        var section = sections[si];
+        for (var bi = 0; bi < section.themeSelectorBlocks.length; bi++) {
+            var block = section.themeSelectorBlocks[bi];
+            var themeFile = 'theme-' + (slugify(block.modeName) || 'mode') + '.css';
+            addLines(themeFile, block.lines.concat(['']));
+            addDependency(themeFile, section.fileName);
+        }
+    }
+    for (var vi = 0; vi < exportedVariables.length; vi++) {
+        var variable = exportedVariables[vi];
+        var fromFile = collectionFiles.get(variable.collectionId);
+        if (!fromFile)
+            continue;
+        var modeIds = Object.keys(variable.valuesByMode);
+        for (var mi = 0; mi < modeIds.length; mi++) {
+            var value = variable.valuesByMode[modeIds[mi]];
+            if (!value.isAlias || !value.aliasId)
+                continue;
+            var target = exportedVariableMap.get(value.aliasId);
+            if (!target)
+                continue;
+            var toFile = collectionFiles.get(target.collectionId);
+            if (toFile)
+                addDependency(fromFile, toFile);
+        }
+    }
+    // Depth-first topological sort; ties keep first-appearance order, cycles are ignored
+    var ordered = [];
+    var state = new Map();
+    function visit(fileName) {
+        if (state.has(fileName))
+            return;
+        state.set(fileName, 'visiting');
+        var list = deps.get(fileName) || [];
+        for (var i = 0; i < list.length; i++) {
+            visit(list[i]);
+        }
+        state.set(fileName, 'done');
+        ordered.push(fileName);
+    }
+    for (var fi = 0; fi < fileOrder.length; fi++) {
+        visit(fileOrder[fi]);
+    }
+    var files = [];
+    var indexLines = generateHeaderLines(options, 'index.css');
+    for (var fi = 0; fi < ordered.length; fi++) {
+        indexLines.push('@import url("' + ordered[fi] + '");');
+        files.push({ name: ordered[fi], content: fileLines.get(ordered[fi]).join('\n') });
+    }
+    // Text styles get their own file; SCSS mixins cannot be @imported from CSS
+    if (textStyleLines.length > 0) {
+        if (options.textStyleFormat === 'scss-mixin') {
+            files.push({ name: '_text-styles.scss', content: textStyleLines.join('\n') });
+        }
+        else {
+            indexLines.push('@import url("text-styles.css");');
+            files.push({ name: 'text-styles.css', content: generateHeaderLines(options, 'text-styles.css').concat(textStyleLines).join('\n') });
+        }
+    }
+    indexLines.push('');
+    files.unshift({ name: 'index.css', content: indexLines.join('\n') });
+    return files;
+}
+// Check if a variable should be skipped (circular reference or duplicate)
+function shouldSkipVariable(variable, value, outputtedCSSNames, errors) {
+    // Check for circular reference: alias pointing to itself
+    if (value.isAlias && value.aliasName === variable.cssName) {
+        // This would create: --var-name: var(--var-name); which is circular
+        // Skip this variable - it's likely an alias that mirrors a foundation
+        return true;
+    }
+    // Check for duplicate CSS name that's already been output
+    // Only skip if it's NOT a foundation (foundations should always be output first)
+    if (outputtedCSSNames.has(variable.cssName) && variable.layerType !== 'foundations') {
+        return true;
+    }
+    return false;
+}
+// Breakpoint rules query the viewport, or the container in container mode
+function openBreakpointRule(condition, options) {
+    if (options.outputMode === 'container') {
+        return '@container ' + (options.containerName ? options.containerName + ' ' : '') + condition + ' {';
+    }
+    return '@media ' + condition + ' {';
+}
+// Custom properties resolve var() where they're declared: on :root, an alias would keep
+// the value its target has at the root, which no container can change. Container mode
+// declares breakpoint and single-mode tokens on every element instead, so each alias
+// re-resolves against the element's own container. Theme blocks stay on :root.
+function tokenSelector(options) {
+    return options.outputMode === 'container' ? '*' : ':root';
+}
+function fluidUnit(options) {
+    return options.outputMode === 'container' ? 'cqi' : 'vw';
+}
+// '' for unitless variables, else px or rem depending on the unit option and the domain
+function lengthUnit(variable, options) {
+    if (isUnitless(variable))
+        return '';
+    if (options.lengthUnit !== 'rem')
+        return 'px';
+    var pxDomains = (options.pxDomains || []).map(function (d) { return d.toLowerCase(); });
+    return pxDomains.indexOf(variable.domain) !== -1 ? 'px' : 'rem';
+}
+function getRootFontSize(options) {
+    return options.rootFontSize && options.rootFontSize > 0 ? options.rootFontSize : 16;
+}
+// A Figma px value in the given unit. rem keeps 4 decimals so 1px (0.0625rem) survives.
+function formatLength(px, unit, options) {
+    if (unit === 'rem') {
+        return round(px / getRootFontSize(options), 4) + 'rem';
+    }
+    return round(px, 2) + unit;
+}
+// Width in a breakpoint condition. Media query em is relative to the browser's default
+// font size, not :root, so it's always 16px regardless of rootFontSize. Container
+// queries stay in px: em there would follow the container's own font size.
+function formatBreakpointWidth(px, options) {
+    if (options.mediaQueryUnit === 'em' && options.outputMode !== 'container') {
+        return round(px / 16, 4) + 'em';
+    }
+    return px + 'px';
+}
+function generateBreakpointCSS(collection, variables, options, outputtedCSSNames, errors, viewportRelativeVars, viewportCandidates, proportionVars, proportionCandidates, nonLinearVars, nonLinearCandidates) {
+    var lines = [];
+    var breakpoints = getBreakpoints(options);
+    // Get modes sorted by breakpoint (largest first)
+    var sortedModes = [];
+    for (var i = 0; i < collection.modes.length; i++) {
+        var m = collection.modes[i];
+        sortedModes.push({
+            modeId: m.modeId,
+            name: m.name,
+            breakpointPx: detectBreakpoint(m.name, breakpoints) || 0
+        });
+    }
+    sortedModes.sort(function (a, b) { return b.breakpointPx - a.breakpointPx; });
+    for (var i = 1; i < sortedModes.length; i++) {
+        if (sortedModes[i].breakpointPx === sortedModes[i - 1].breakpointPx) {
+            errors.push('Breakpoint modes ' + sortedModes[i - 1].name + ' and ' + sortedModes[i].name + ' (' + collection.name
+                + ') both map to ' + sortedModes[i].breakpointPx + 'px \u2014 give them distinct widths');
+        }
+    }
+    var resultLines;
+    if ((options.outputMode === 'fluid' || options.outputMode === 'container') && sortedModes.length >= 2) {
+        resultLines = generateFluidCSS(sortedModes, variables, options, outputtedCSSNames, errors, viewportRelativeVars, viewportCandidates, proportionVars, proportionCandidates, nonLinearVars, nonLinearCandidates);
+    }
+    else {
+        // 'fixed' mode: output raw values per breakpoint using @media queries
+        resultLines = generateSteppedCSS(sortedModes, variables, options, outputtedCSSNames, errors);
+    }
+    for (var i = 0; i < resultLines.length; i++) {
+        lines.push(resultLines[i]);
+    }
+    return lines;
+}
+function generateFluidCSS(modes, variables, options, outputtedCSSNames, errors, viewportRelativeVars, viewportCandidates, proportionVars, proportionCandidates, nonLinearVars, nonLinearCandidates) {
+    var lines = [];
+    // Direction: mobile-first uses smallest breakpoint as default, desktop-first uses largest
+    var isDesktopFirst = options.breakpointDirection !== 'mobile-first';
+    var defaultMode = isDesktopFirst ? modes[0] : modes[modes.length - 1];
+    // Always use largest mode for candidate detection (modes sorted largest-first)
+    var largestMode = modes[0];
+    // Separate variables into:
+    // 1. Variables that can use clamp()/min() - numeric FLOAT values without aliases
+    // 2. Variables that need media queries - aliases that change, or non-FLOAT types
+    var clampableVars = [];
+    var mediaQueryVars = [];
+    for (var vi = 0; vi < variables.length; vi++) {
+        var variable = variables[vi];
+        var value = variable.valuesByMode[largestMode.modeId];
+        if (!value)
+            continue;
+        // Check if we should skip this variable
+        if (shouldSkipVariable(variable, value, outputtedCSSNames, errors)) {
+            continue;
+        }
+        if (needsMediaQueries(variable, modes, options)) {
+            mediaQueryVars.push(variable);
+        }
+        else {
+            clampableVars.push(variable);
+            // Check if this is a viewport-relative candidate (for UI display)
+            // Only check FLOAT variables that have mode variance
+            if (variable.resolvedType === 'FLOAT' && !value.isAlias && hasModeVariance(variable, modes, options)) {
+                var reason = getViewportCandidateReason(variable);
+                if (reason) {
+                    viewportCandidates.push({
+                        cssName: variable.cssName,
+                        originalName: variable.name,
+                        reason: reason
+                    });
+                }
+                // Check if this is a proportion candidate (for UI display)
+                var columnCount = getProportionColumnCount(variable);
+                if (columnCount !== null) {
+                    proportionCandidates.push({
+                        cssName: variable.cssName,
+                        originalName: variable.name,
+                        columnCount: columnCount
+                    });
+                }
+                // Check if this is a non-linear candidate (for UI display)
+                // Skip proportion and viewport-relative variables — they're semantically different
+                if (getProportionColumnCount(variable) === null && !getViewportCandidateReason(variable)) {
+                    var modeValues = getNonLinearDeviation(variable, modes);
+                    if (modeValues) {
+                        var maxDeviation = 0;
+                        for (var mi = 0; mi < modeValues.length; mi++) {
+                            maxDeviation = Math.max(maxDeviation, modeValues[mi].deviation);
+                        }
+                        var candidate = {
+                            cssName: variable.cssName,
+                            originalName: variable.name,
+                            collectionId: variable.collectionId,
+                            collectionName: variable.collectionName,
+                            group: getVariableGroup(variable.name),
+                            maxDeviation: maxDeviation,
+                            modeValues: modeValues
+                        };
+                        if (options.piecewiseMode === 'auto') {
+                            var fit = fitPiecewiseSegments(modeValues, options);
+                            candidate.segmentModes = fit.knots.map(function (k) { return modeValues[k].name; });
+                            candidate.fitError = round(fit.error, 2);
+                            candidate.fitErrorUnit = options.piecewiseToleranceUnit === 'percent' ? 'percent' : 'px';
+                        }
+                        nonLinearCandidates.push(candidate);
+                    }
+                }
+            }
+        }
+    }
+    // Modes each piecewise variable's segments join, filled while writing the base block
+    var piecewiseKnots = new Map();
+    // Output :root with default mode values and clamp()/min() for numeric variables
+    lines.push(tokenSelector(options) + ' {');
+    for (var vi = 0; vi < clampableVars.length; vi++) {
+        var variable = clampableVars[vi];
+        var value = variable.valuesByMode[defaultMode.modeId];
+        var cssValue = formatCSSValue(value, variable, options);
+        if (cssValue !== null) {
+            if (options.includeIds) {
+                lines.push('  /* ' + variable.id + ' */');
+            }
+            // Check if this variable has different numeric values across modes
+            if (hasModeVariance(variable, modes, options) && variable.resolvedType === 'FLOAT' && !value.isAlias) {
+                // Check if this is a proportion variable
+                if (shouldUseProportion(variable, options)) {
+                    var columnCount = getProportionColumnCount(variable);
+                    if (columnCount !== null) {
+                        proportionVars.push(variable.cssName);
+                        lines.push('  /* Proportion: ' + columnCount + '/12 columns (flex/grid-ready) */');
+                        lines.push('  ' + variable.cssName + ': ' + columnCount + ';');
+                        lines.push('  ' + variable.cssName + '--fr: ' + columnCount + 'fr;');
+                    }
+                    else {
+                        // Fallback if column count detection failed but user selected it
+                        lines.push('  ' + variable.cssName + ': ' + cssValue + ';');
+                    }
+                }
+                else if (getPiecewiseKnots(variable, modes, options)) {
+                    // Piecewise clamp: largest segment in :root for desktop-first, smallest for mobile-first
+                    var knots = getPiecewiseKnots(variable, modes, options);
+                    piecewiseKnots.set(variable.cssName, knots);
+                    nonLinearVars.push(variable.cssName);
+                    lines.push('  /* Piecewise clamp: non-linear scaling (' + (knots.length - 1) + ' segments) */');
+                    var rootSegment = getPiecewiseSegments(knots, isDesktopFirst)[0];
+                    lines.push('  ' + variable.cssName + ': ' + generatePiecewiseClampValue(modes[rootSegment.from], modes[rootSegment.to], variable, options) + ';');
+                }
+                else {
+                    var fluidResult = generateFluidValue(modes, variable, options, viewportRelativeVars);
+                    // Add comment for viewport-relative variables
+                    if (fluidResult.isViewportRelative) {
+                        lines.push('  /* Viewport-relative: uses min() instead of clamp() */');
+                    }
+                    lines.push('  ' + variable.cssName + ': ' + fluidResult.value + ';');
+                }
+            }
+            else {
+                lines.push('  ' + variable.cssName + ': ' + cssValue + ';');
+            }
+            outputtedCSSNames.add(variable.cssName);
+        }
+    }
+    // Also output default mode values for media query variables
+    for (var vi = 0; vi < mediaQueryVars.length; vi++) {
+        var variable = mediaQueryVars[vi];
+        var value = variable.valuesByMode[defaultMode.modeId];
+        var cssValue = formatCSSValue(value, variable, options);
+        if (cssValue !== null) {
+            if (options.includeIds) {
+                lines.push('  /* ' + variable.id + ' */');
+            }
+            lines.push('  ' + variable.cssName + ': ' + cssValue + ';');
+            outputtedCSSNames.add(variable.cssName);
+        }
+    }
+    lines.push('}');
+    // Output media queries for variables that need them (aliases with changing refs, non-numeric values)
+    // These are OUTSIDE @supports because they're not fallbacks - they're the primary mechanism
+    if (mediaQueryVars.length > 0) {
+        if (isDesktopFirst) {
+            // Desktop-first: iterate from second-largest to smallest, max-width
+            for (var i = 1; i < modes.length; i++) {
+                var mode = modes[i];
+                var prevMode = modes[i - 1];
+                var varsForThisBreakpoint = [];
+                for (var vi = 0; vi < mediaQueryVars.length; vi++) {
+                    var variable = mediaQueryVars[vi];
+                    var val = variable.valuesByMode[mode.modeId];
+                    if (!val)
+                        continue;
+                    var cssValue = formatCSSValue(val, variable, options);
+                    if (cssValue === null)
+                        continue;
+                    varsForThisBreakpoint.push({ variable: variable, cssValue: cssValue });
+                }
+                if (varsForThisBreakpoint.length > 0) {
+                    lines.push('');
+                    lines.push(openBreakpointRule('(max-width: ' + formatBreakpointWidth(prevMode.breakpointPx - 1, options) + ')', options));
+                    lines.push('  ' + tokenSelector(options) + ' {');
+                    for (var vi = 0; vi < varsForThisBreakpoint.length; vi++) {
+                        var item = varsForThisBreakpoint[vi];
+                        lines.push('    ' + item.variable.cssName + ': ' + item.cssValue + ';');
+                    }
+                    lines.push('  }');
+                    lines.push('}');
+                }
+            }
+        }
+        else {
+            // Mobile-first: iterate from second-smallest to largest, min-width
+            for (var i = modes.length - 2; i >= 0; i--) {
+                var mode = modes[i];
+                var varsForThisBreakpoint = [];
+                for (var vi = 0; vi < mediaQueryVars.length; vi++) {
+                    var variable = mediaQueryVars[vi];
+                    var val = variable.valuesByMode[mode.modeId];
+                    if (!val)
+                        continue;
+                    var cssValue = formatCSSValue(val, variable, options);
+                    if (cssValue === null)
+                        continue;
+                    varsForThisBreakpoint.push({ variable: variable, cssValue: cssValue });
+                }
+                if (varsForThisBreakpoint.length > 0) {
+                    lines.push('');
+                    lines.push(openBreakpointRule('(min-width: ' + formatBreakpointWidth(mode.breakpointPx, options) + ')', options));
+                    lines.push('  ' + tokenSelector(options) + ' {');
+                    for (var vi = 0; vi < varsForThisBreakpoint.length; vi++) {
+                        var item = varsForThisBreakpoint[vi];
+                        lines.push('    ' + item.variable.cssName + ': ' + item.cssValue + ';');
+                    }
+                    lines.push('  }');
+                    lines.push('}');
+                }
+            }
+        }
+    }
+    // Piecewise clamp media queries for non-linear variables
+    // These output intermediate clamp segments in @media blocks, one block per breakpoint
+    // and segment so variables fitted with different breakpoints share rules where they can
+    var piecewiseVars = clampableVars.filter(function (v) { return piecewiseKnots.has(v.cssName); });
+    if (piecewiseVars.length > 0) {
+        // Mobile-first rules ascend from the smallest breakpoint, desktop-first rules descend
+        for (var step = 0; step < modes.length; step++) {
+            var condition = isDesktopFirst ? step : modes.length - 1 - step;
+            var blocks = [];
+            for (var vi = 0; vi < piecewiseVars.length; vi++) {
+                var segments = getPiecewiseSegments(piecewiseKnots.get(piecewiseVars[vi].cssName), isDesktopFirst);
+                for (var si = 1; si < segments.length; si++) {
+                    if (segments[si].condition !== condition)
+                        continue;
+                    var block = blocks.filter(function (b) { return b.from === segments[si].from && b.to === segments[si].to; })[0];
+                    if (!block) {
+                        block = { from: segments[si].from, to: segments[si].to, variables: [] };
+                        blocks.push(block);
+                    }
+                    block.variables.push(piecewiseVars[vi]);
+                }
+            }
+            for (var bi = 0; bi < blocks.length; bi++) {
+                var block = blocks[bi];
+                lines.push('');
+                lines.push('/* Piecewise clamp: ' + modes[block.from].name + ' \u2192 ' + modes[block.to].name + ' segment */');
+                if (isDesktopFirst) {
+                    // Desktop-first: each narrower segment below the previous breakpoint
+                    lines.push(openBreakpointRule('(max-width: ' + formatBreakpointWidth(modes[condition].breakpointPx - 1, options) + ')', options));
+                }
+                else {
+                    // Mobile-first: each wider segment from its lower breakpoint up
+                    lines.push(openBreakpointRule('(min-width: ' + formatBreakpointWidth(modes[condition].breakpointPx, options) + ')', options));
+                }
+                lines.push('  ' + tokenSelector(options) + ' {');
+                for (var vi = 0; vi < block.variables.length; vi++) {
+                    var v = block.variables[vi];
+                    lines.push('    ' + v.cssName + ': ' + generatePiecewiseClampValue(modes[block.from], modes[block.to], v, options) + ';');
+                }
+                lines.push('  }');
+                lines.push('}');
+            }
+        }
+    }
+    // Fallback media queries for clampable variables (for older browsers that don't support clamp/min)
+    // Only include if option is enabled. Browsers without clamp() have no container queries either.
+    if (options.includeLegacyFallbacks && options.outputMode !== 'container') {
+        var clampableWithVariance = clampableVars.filter(function (v) {
+            return hasModeVariance(v, modes, options)
+                && !shouldUseProportion(v, options)
+                && !shouldUseViewportRelative(v, options);
+        });
+        if (clampableWithVariance.length > 0) {
+            lines.push('');
+            lines.push('/* Fallback for older browsers */');
+            lines.push('@supports not (width: clamp(1px, 1vw, 2px)) {');
+            if (isDesktopFirst) {
+                for (var i = 1; i < modes.length; i++) {
+                    var mode = modes[i];
+                    var prevMode = modes[i - 1];
+                    lines.push('  @media (max-width: ' + formatBreakpointWidth(prevMode.breakpointPx - 1, options) + ') {');
+                    lines.push('    :root {');
+                    for (var vi = 0; vi < clampableWithVariance.length; vi++) {
+                        var variable = clampableWithVariance[vi];
+                        var val = variable.valuesByMode[mode.modeId];
+                        if (!val)
+                            continue;
+                        var cv = formatCSSValue(val, variable, options);
+                        if (cv !== null) {
+                            lines.push('      ' + variable.cssName + ': ' + cv + ';');
+                        }
+                    }
+                    lines.push('    }');
+                    lines.push('  }');
+                }
+            }
+            else {
+                for (var i = modes.length - 2; i >= 0; i--) {
+                    var mode = modes[i];
+                    lines.push('  @media (min-width: ' + formatBreakpointWidth(mode.breakpointPx, options) + ') {');
+                    lines.push('    :root {');
+                    for (var vi = 0; vi < clampableWithVariance.length; vi++) {
+                        var variable = clampableWithVariance[vi];
+                        var val = variable.valuesByMode[mode.modeId];
+                        if (!val)
+                            continue;
+                        var cv = formatCSSValue(val, variable, options);
+                        if (cv !== null) {
+                            lines.push('      ' + variable.cssName + ': ' + cv + ';');
+                        }
+                    }
+                    lines.push('    }');
+                    lines.push('  }');
+                }
+            }
+            lines.push('}');
+        }
+    }
+    return lines;
+}
+// Check if a variable is a candidate for viewport-relative treatment
+// Returns the reason if it's a candidate, null otherwise
+function getViewportCandidateReason(variable) {
+    var nameLower = variable.name.toLowerCase();
+    var descLower = variable.description.toLowerCase();
+    if (nameLower.indexOf('viewport') !== -1)
+        return 'name';
+    if (descLower.indexOf('viewport') !== -1)
+        return 'description';
+    return null;
+}
+// Check if a variable should be treated as viewport-relative based on options
+function shouldUseViewportRelative(variable, options) {
+    // If overrides are provided, use them exclusively
+    if (options.viewportRelativeOverrides && options.viewportRelativeOverrides.length > 0) {
+        return options.viewportRelativeOverrides.indexOf(variable.cssName) !== -1;
+    }
+    // Otherwise, no automatic detection - user must explicitly select
+    return false;
+}
+// Keywords in variable names that indicate unitless numeric values (no px suffix)
+// These CSS properties accept unitless numbers: font-weight, column-count, opacity,
+// z-index, flex-grow/shrink, order, aspect-ratio, etc.
+// NOTE: line-height is intentionally excluded — design systems typically define
+// line-height in pixels (e.g., 38px from font-size × 1.5). A unitless CSS
+// line-height of 38 would mean 38× the font-size, which is catastrophically wrong.
+var UNITLESS_KEYWORDS = [
+    'weight', 'column-count', 'column count', 'columncount',
+    'opacity', 'z-index', 'zindex', 'z index',
+    'order', 'flex-grow', 'flex-shrink', 'flex grow', 'flex shrink',
+    'ratio', 'columns', 'rows', 'count'
+];
+// Check if a keyword appears as a complete segment in a name, not as a substring
+// within a larger word. Segments are bounded by separators: - / . space or string edges.
+// e.g., "order" matches "flex-order" and "z-order" but NOT "border-width"
+// "ratio" matches "aspect-ratio" but NOT "decoration"
+// "count" matches "column-count" but NOT "counter"
+function matchesAsSegment(text, keyword) {
+    var pos = 0;
+    while (pos <= text.length - keyword.length) {
+        var idx = text.indexOf(keyword, pos);
+        if (idx === -1)
+            return false;
+        var before = idx === 0 || '-/. '.indexOf(text.charAt(idx - 1)) !== -1;
+        var afterIdx = idx + keyword.length;
+        var after = afterIdx === text.length || '-/. '.indexOf(text.charAt(afterIdx)) !== -1;
+        if (before && after)
+            return true;
+        pos = idx + 1;
+    }
+    return false;
+}
+// Check if a FLOAT variable should be exported without a unit (unitless number)
+// Detection is by naming convention: if the variable name contains a unitless keyword
+// as a complete segment (bounded by hyphens, slashes, dots, spaces, or string edges).
+// This prevents false positives like "border" matching "order" or "decoration" matching "ratio".
+function isUnitless(variable) {
+    var nameLower = variable.name.toLowerCase();
+    var cssNameLower = variable.cssName.toLowerCase();
+    for (var i = 0; i < UNITLESS_KEYWORDS.length; i++) {
+        if (matchesAsSegment(nameLower, UNITLESS_KEYWORDS[i]) || matchesAsSegment(cssNameLower, UNITLESS_KEYWORDS[i])) {
+            return true;
+        }
+    }
+    return false;
+}
+// CSS font-style keywords that should be output unquoted when found as STRING values
+var FONT_STYLE_KEYWORDS = ['italic', 'oblique', 'normal'];
+// Check if a STRING value is a CSS font-style keyword (should be output unquoted)
+function isFontStyleValue(value) {
+    var lower = value.toLowerCase().trim();
+    for (var i = 0; i < FONT_STYLE_KEYWORDS.length; i++) {
+        if (lower === FONT_STYLE_KEYWORDS[i] || lower.indexOf('oblique ') === 0) {
+            return true;
+        }
+    }
+    return false;
+}
+// Proportion name to column count mapping (based on 12-column grid)
+// IMPORTANT: Array is ordered from longest to shortest names to ensure
+// "three-quarters" matches before "quarter", "two-thirds" before "third", etc.
+// Each entry has multiple patterns to handle different naming conventions
+// (hyphens, spaces, or concatenated)
+var PROPORTION_COLUMNS = [
+    { patterns: ['three-quarters', 'three quarters', 'threequarters', 'three-quarter', 'three quarter', 'threequarter'], columns: 9 },
+    { patterns: ['two-thirds', 'two thirds', 'twothirds', 'two-third', 'two third', 'twothird'], columns: 8 },
+    { patterns: ['quarter'], columns: 3 },
+    { patterns: ['whole'], columns: 12 },
+    { patterns: ['third'], columns: 4 },
+    { patterns: ['half'], columns: 6 }
+];
+// Check if a variable is a candidate for proportion treatment
+// Returns the column count if it's a proportion, null otherwise
+function getProportionColumnCount(variable) {
+    var nameLower = variable.name.toLowerCase();
+    // Must contain "proportion" or "proportions" in the name
+    if (nameLower.indexOf('proportion') === -1)
+        return null;
+    // Skip viewport-relative proportions (handled separately)
+    if (nameLower.indexOf('viewport') !== -1)
+        return null;
+    // Check for known proportion names (array is ordered longest-first to avoid
+    // substring conflicts like "quarter" matching before "three-quarters")
+    for (var i = 0; i < PROPORTION_COLUMNS.length; i++) {
+        var prop = PROPORTION_COLUMNS[i];
+        for (var j = 0; j < prop.patterns.length; j++) {
+            if (nameLower.indexOf(prop.patterns[j]) !== -1) {
+                return prop.columns;
+            }
+        }
+    }
+    return null;
+}
+// Check if a variable should be treated as a proportion
+// Proportions are always-on: any variable with a detectable proportion name outputs as grid/flex values
+function shouldUseProportion(variable, options) {
+    return getProportionColumnCount(variable) !== null;
+}
+// Non-linear detection: any numeric variable with at least one mode value
+// that differs from another is a candidate for piecewise clamp scaling.
+// No threshold — the user decides which variables to opt-in via the UI.
+// Mode values of a numeric variable that scales across breakpoints, with each mode's
+// deviation from the straight line a single clamp() would draw. Null if it doesn't scale.
+function getNonLinearDeviation(variable, modes) {
+    // Need at least 2 modes
+    if (modes.length < 2)
+        return null;
+    // Must be FLOAT with no aliases across all modes
+    if (variable.resolvedType !== 'FLOAT')
+        return null;
+    var modeValues = [];
+    for (var i = 0; i < modes.length; i++) {
+        var val = variable.valuesByMode[modes[i].modeId];
+        if (!val || val.isAlias)
+            return null;
+        if (typeof val.resolved !== 'number')
+            return null;
+        modeValues.push({ name: modes[i].name, value: val.resolved, breakpointPx: modes[i].breakpointPx, expected: val.resolved, deviation: 0 });
+    }
+    // Skip if all mode values are identical (no scaling)
+    var allSame = true;
+    for (var i = 1; i < modeValues.length; i++) {
+        if (modeValues[i].value !== modeValues[0].value) {
+            allSame = false;
+            break;
+        }
+    }
+    if (allSame)
+        return null;
+    // Intermediate modes against the line between the largest and smallest mode
+    var first = modeValues[0];
+    var last = modeValues[modeValues.length - 1];
+    var range = Math.abs(first.value - last.value);
+    if (range > 0 && first.breakpointPx !== last.breakpointPx) {
+        var slope = (first.value - last.value) / (first.breakpointPx - last.breakpointPx);
+        for (var i = 1; i < modeValues.length - 1; i++) {
+            modeValues[i].expected = last.value + slope * (modeValues[i].breakpointPx - last.breakpointPx);
+            modeValues[i].deviation = Math.abs(modeValues[i].value - modeValues[i].expected) / range;
+        }
+    }
+    return modeValues;
+}
+function shouldUsePiecewiseClamp(variable, options) {
+    if (options.nonLinearOverrides && options.nonLinearOverrides.length > 0) {
+        return options.nonLinearOverrides.indexOf(variable.cssName) !== -1;
+    }
+    return false;
+}
+// Automatic piecewise fit: the fewest segments, joined at breakpoints, whose lines keep
+// every mode value within the tolerance. Ties go to the fit with the smaller largest error.
+// knots are indices into modeValues (largest breakpoint first), always including both ends.
+function fitPiecewiseSegments(modeValues, options) {
+    // best[j]: fewest segments from mode 0 to mode j, their largest error and the knot before j
+    var best = [{ segments: 0, error: 0, previous: -1 }];
+    for (var j = 1; j < modeValues.length; j++) {
+        // Adjacent modes always fit exactly, so every j is reachable
+        best.push({ segments: best[j - 1].segments + 1, error: best[j - 1].error, previous: j - 1 });
+        for (var i = j - 2; i >= 0; i--) {
+            var error = getSegmentError(modeValues, i, j, options);
+            if (error === null)
+                continue;
+            var segments = best[i].segments + 1;
+            var worst = Math.max(best[i].error, error);
+            if (segments < best[j].segments || (segments === best[j].segments && worst < best[j].error)) {
+                best[j] = { segments: segments, error: worst, previous: i };
+            }
+        }
+    }
+    var knots = [];
+    for (var k = modeValues.length - 1; k !== -1; k = best[k].previous) {
+        knots.unshift(k);
+    }
+    return { knots: knots, error: best[modeValues.length - 1].error };
+}
+// Largest distance between the line from mode i to mode j and the modes in between, in
+// the tolerance's unit, or null if any of them is off by more than the tolerance
+function getSegmentError(modeValues, i, j, options) {
+    var tolerance = typeof options.piecewiseTolerance === 'number' && options.piecewiseTolerance >= 0 ? options.piecewiseTolerance : 1;
+    var from = modeValues[i];
+    var to = modeValues[j];
+    var error = 0;
+    for (var k = i + 1; k < j; k++) {
+        var expected = from.breakpointPx === to.breakpointPx
+            ? from.value
+            : from.value + (to.value - from.value) * (modeValues[k].breakpointPx - from.breakpointPx) / (to.breakpointPx - from.breakpointPx);
+        var off = Math.abs(modeValues[k].value - expected);
+        if (options.piecewiseToleranceUnit === 'percent') {
+            off = off === 0 ? 0 : modeValues[k].value === 0 ? Infinity : off * 100 / Math.abs(modeValues[k].value);
+        }
+        // Rounding slack, so a tolerance of 0 still accepts points exactly on the line
+        if (off > tolerance + 1e-9)
+            return null;
+        error = Math.max(error, off);
+    }
+    return error;
+}
+// Modes a variable's piecewise clamp() joins, as indices into the largest-first modes, or
+// null for a single clamp(). Manual mode joins every breakpoint of the selected variables,
+// auto mode the fitted ones.
+function getPiecewiseKnots(variable, modes, options) {
+    if (variable.resolvedType !== 'FLOAT' || shouldUseProportion(variable, options) || shouldUseViewportRelative(variable, options)) {
+        return null;
+    }
+    if (options.piecewiseMode === 'auto') {
+        if (getProportionColumnCount(variable) !== null || getViewportCandidateReason(variable))
+            return null;
+        var modeValues = getNonLinearDeviation(variable, modes);
+        if (!modeValues)
+            return null;
+        var knots = fitPiecewiseSegments(modeValues, options).knots;
+        return knots.length > 2 ? knots : null;
+    }
+    if (!shouldUsePiecewiseClamp(variable, options) || !hasModeVariance(variable, modes, options))
+        return null;
+    return modes.map(function (m, i) { return i; });
+}
+// The clamp() segments of a piecewise variable, base block first (condition -1). Mobile-first
+// starts from the smallest knot and opens each wider segment at its lower knot's min-width.
+// Desktop-first starts from the largest and opens each narrower segment below the knot
+// before it. condition is the index of the mode whose width the rule tests.
+function getPiecewiseSegments(knots, isDesktopFirst) {
+    var segments = [];
+    var last = knots.length - 1;
+    if (isDesktopFirst) {
+        segments.push({ condition: -1, from: knots[0], to: knots[1] });
+        for (var j = 1; j < last; j++) {
+            segments.push({ condition: knots[j - 1], from: knots[j], to: knots[j + 1] });
+        }
+    }
+    else {
+        segments.push({ condition: -1, from: knots[last], to: knots[last - 1] });
+        for (var j = last - 1; j >= 1; j--) {
+            segments.push({ condition: knots[j], from: knots[j], to: knots[j - 1] });
+        }
+    }
+    return segments;
+}
+// Generate a clamp() value for a single segment between two adjacent breakpoints
+function generatePiecewiseClampValue(fromMode, toMode, variable, options) {
+    var fromVal = variable.valuesByMode[fromMode.modeId];
+    var toVal = variable.valuesByMode[toMode.modeId];
+    var fromValue = fromVal ? fromVal.resolved : null;
+    var toValue = toVal ? toVal.resolved : null;
+    var unit = lengthUnit(variable, options);
+    if (typeof fromValue !== 'number' || typeof toValue !== 'number') {
+        return fromValue + unit;
+    }
+    if (fromValue === toValue) {
+        return formatLength(fromValue, unit, options);
+    }
+    var fromVP = fromMode.breakpointPx;
+    var toVP = toMode.breakpointPx;
+    // Two modes at the same width (reported by generateBreakpointCSS) have no slope
+    if (fromVP === toVP) {
+        return formatLength(fromValue, unit, options);
+    }
+    var slope = (fromValue - toValue) / (fromVP - toVP);
+    var intercept = toValue - slope * toVP;
+    var slopeVW = round(slope * 100, 4);
+    var interceptPx = round(intercept, 2);
+    var minLength = formatLength(Math.min(fromValue, toValue), unit, options);
+    var maxLength = formatLength(Math.max(fromValue, toValue), unit, options);
+    var preferred;
+    if (interceptPx >= 0) {
+        preferred = formatLength(intercept, unit, options) + ' + ' + slopeVW + fluidUnit(options);
+    }
+    else {
+        preferred = slopeVW + fluidUnit(options) + ' - ' + formatLength(Math.abs(intercept), unit, options);
+    }
+    return 'clamp(' + minLength + ', calc(' + preferred + '), ' + maxLength + ')';
+}
+// Generate CSS value for a variable - either clamp() or min() for viewport-relative
+function generateFluidValue(modes, variable, options, viewportRelativeVars) {
+    var maxMode = modes[0];
+    var minMode = modes[modes.length - 1];
+    var maxVal = variable.valuesByMode[maxMode.modeId];
+    var minVal = variable.valuesByMode[minMode.modeId];
+    var maxValue = maxVal ? maxVal.resolved : null;
+    var minValue = minVal ? minVal.resolved : null;
+    // Determine unit suffix — unitless variables (font-weight, count, etc.) get no unit
+    var unitless = isUnitless(variable);
+    var unit = lengthUnit(variable, options);
+    if (typeof maxValue !== 'number' || typeof minValue !== 'number') {
+        return { value: maxValue + unit, isViewportRelative: false };
+    }
+    // Check if this variable should use viewport-relative formula
+    if (shouldUseViewportRelative(variable, options)) {
+        // Track this variable for reporting
+        viewportRelativeVars.push(variable.cssName);
+        // Use min(100vw, maxValue) - the container should be 100% of viewport up to max
+        return {
+            value: 'min(100' + fluidUnit(options) + ', ' + formatLength(maxValue, unit, options) + ')',
+            isViewportRelative: true
+        };
+    }
+    // If unitless and values are equal across breakpoints, just output the value
+    if (unitless && maxValue === minValue) {
+        return { value: String(round(maxValue, 2)), isViewportRelative: false };
+    }
+    // Standard clamp() interpolation
+    var maxVP = maxMode.breakpointPx;
+    var minVP = minMode.breakpointPx;
+    var slope = (maxValue - minValue) / (maxVP - minVP);
+    var intercept = minValue - slope * minVP;
+    var slopeVW = round(slope * 100, 4);
+    var interceptPx = round(intercept, 2);
+    var minLength = formatLength(Math.min(minValue, maxValue), unit, options);
+    var maxLength = formatLength(Math.max(minValue, maxValue), unit, options);
+    var preferred;
+    if (interceptPx >= 0) {
+        preferred = formatLength(intercept, unit, options) + ' + ' + slopeVW + fluidUnit(options);
+    }
+    else {
+        preferred = slopeVW + fluidUnit(options) + ' - ' + formatLength(Math.abs(intercept), unit, options);
+    }
+    return {
+        value: 'clamp(' + minLength + ', calc(' + preferred + '), ' + maxLength + ')',
+        isViewportRelative: false
+    };
+}
+// Legacy function for backward compatibility - delegates to generateFluidValue
+function generateClamp(modes, variable, options) {
+    var dummyTracker = [];
+    return generateFluidValue(modes, variable, options, dummyTracker).value;
+}
+function generateSteppedCSS(modes, variables, options, outputtedCSSNames, errors) {
+    var lines = [];
+    // Direction: mobile-first uses smallest breakpoint as default, desktop-first uses largest
+    var isDesktopFirst = options.breakpointDirection !== 'mobile-first';
+    var defaultMode = isDesktopFirst ? modes[0] : modes[modes.length - 1];
+    lines.push(tokenSelector(options) + ' {');
+    for (var vi = 0; vi < variables.length; vi++) {
+        var variable = variables[vi];
+        var value = variable.valuesByMode[defaultMode.modeId];
+        if (!value)
+            continue;
+        // Check if we should skip this variable
+        if (shouldSkipVariable(variable, value, outputtedCSSNames, errors)) {
+            continue;
+        }
+        // Proportions always output as grid/flex values, even in fixed mode
+        if (shouldUseProportion(variable, options)) {
+            var columnCount = getProportionColumnCount(variable);
+            if (columnCount !== null) {
+                if (options.includeIds) {
+                    lines.push('  /* ' + variable.id + ' */');
+                }
+                lines.push('  /* Proportion: ' + columnCount + '/12 columns (flex/grid-ready) */');
+                lines.push('  ' + variable.cssName + ': ' + columnCount + ';');
+                lines.push('  ' + variable.cssName + '--fr: ' + columnCount + 'fr;');
+                outputtedCSSNames.add(variable.cssName);
+                continue;
+            }
+        }
+        var cssValue = formatCSSValue(value, variable, options);
+        if (cssValue !== null) {
+            if (options.includeIds) {
+                lines.push('  /* ' + variable.id + ' */');
+            }
+            lines.push('  ' + variable.cssName + ': ' + cssValue + ';');
+            outputtedCSSNames.add(variable.cssName);
+        }
+    }
+    lines.push('}');
+    if (isDesktopFirst) {
+        // Desktop-first: iterate from second-largest to smallest, max-width
+        for (var i = 1; i < modes.length; i++) {
+            var mode = modes[i];
+            var prevMode = modes[i - 1];
+            lines.push('');
+            lines.push(openBreakpointRule('(max-width: ' + formatBreakpointWidth(prevMode.breakpointPx - 1, options) + ')', options));
+            lines.push('  ' + tokenSelector(options) + ' {');
+            for (var vi = 0; vi < variables.length; vi++) {
+                var variable = variables[vi];
+                if (shouldUseProportion(variable, options))
+                    continue;
+                var value = variable.valuesByMode[mode.modeId];
+                if (!value)
+                    continue;
+                if (!outputtedCSSNames.has(variable.cssName))
+                    continue;
+                var cssValue = formatCSSValue(value, variable, options);
+                if (cssValue !== null) {
+                    lines.push('    ' + variable.cssName + ': ' + cssValue + ';');
+                }
+            }
+            lines.push('  }');
+            lines.push('}');
+        }
+    }
+    else {
+        // Mobile-first: iterate from second-smallest to largest, min-width
+        for (var i = modes.length - 2; i >= 0; i--) {
+            var mode = modes[i];
+            lines.push('');
+            lines.push(openBreakpointRule('(min-width: ' + formatBreakpointWidth(mode.breakpointPx, options) + ')', options));
+            lines.push('  ' + tokenSelector(options) + ' {');
+            for (var vi = 0; vi < variables.length; vi++) {
+                var variable = variables[vi];
+                if (shouldUseProportion(variable, options))
+                    continue;
+                var value = variable.valuesByMode[mode.modeId];
+                if (!value)
+                    continue;
+                if (!outputtedCSSNames.has(variable.cssName))
+                    continue;
+                var cssValue = formatCSSValue(value, variable, options);
+                if (cssValue !== null) {
+                    lines.push('    ' + variable.cssName + ': ' + cssValue + ';');
+                }
+            }
+            lines.push('  }');
+            lines.push('}');
+        }
+    }
+    return lines;
+}
+// Theme mode for one side of the system preference: the configured mode name if the
+// collection has it, else the mode named exactly like the keyword, else the first one
+// containing it ("Dark Dimmed"). High contrast modes only match when configured.
+function findThemeMode(modes, configured, keyword) {
+    var configuredName = configured ? configured.trim().toLowerCase() : '';
+    for (var i = 0; i < modes.length; i++) {
+        if (configuredName && modes[i].name.trim().toLowerCase() === configuredName)
+            return modes[i];
+    }
+    for (var i = 0; i < modes.length; i++) {
+        if (modes[i].name.trim().toLowerCase() === keyword)
+            return modes[i];
+    }
+    for (var i = 0; i < modes.length; i++) {
+        if (!CONTRAST_MODE_PATTERN.test(modes[i].name) && modes[i].name.toLowerCase().indexOf(keyword) !== -1)
+            return modes[i];
+    }
+    return null;
+}
+// @media (prefers-contrast: more) conditions for the high contrast modes. A light and a dark
+// contrast mode are combined with prefers-color-scheme; a lone one applies to both schemes.
+function getContrastQueries(modes, systemModeIds) {
+    var contrastLight = null;
+    var contrastDark = null;
+    var contrastOther = null;
+    for (var i = 0; i < modes.length; i++) {
+        var name = modes[i].name.toLowerCase();
+        if (!CONTRAST_MODE_PATTERN.test(name) || systemModeIds.indexOf(modes[i].modeId) !== -1)
+            continue;
+        if (name.indexOf('dark') !== -1) {
+            if (!contrastDark)
+                contrastDark = modes[i];
+        }
+        else if (name.indexOf('light') !== -1) {
+            if (!contrastLight)
+                contrastLight = modes[i];
+        }
+        else if (!contrastOther) {
+            contrastOther = modes[i];
+        }
+    }
+    var queries = [];
+    var base = contrastLight || contrastOther;
+    if (base)
+        queries.push({ condition: '(prefers-contrast: more)', mode: base });
+    if (contrastDark)
+        queries.push({ condition: '(prefers-contrast: more) and (prefers-color-scheme: dark)', mode: contrastDark });
+    return queries;
+}
+// Explicit theme selector from options.themeSelector ('.theme-{mode}', ':host([theme={mode}])'),
+// {mode} replaced by the slugified mode name. Defaults to [data-theme="{mode}"].
+function getThemeSelector(modeName, options) {
+    var template = options.themeSelector && options.themeSelector.indexOf('{mode}') !== -1 ? options.themeSelector.trim() : '[data-theme="{mode}"]';
+    return template.split('{mode}').join(slugify(modeName));
+}
+function generateThemeCSS(collection, variables, options, outputtedCSSNames, errors, selectorBlocks) {
+    var lines = [];
+    // Modes for prefers-color-scheme; light is also the :root default
+    var lightMode = findThemeMode(collection.modes, options.themeLightMode, 'light');
+    var darkMode = findThemeMode(collection.modes, options.themeDarkMode, 'dark');
+    var defaultMode = lightMode || getDefaultMode(collection);
+    if (darkMode && darkMode.modeId === defaultMode.modeId)
+        darkMode = null;
+    // light-dark() holds both values in one declaration; it needs a dark mode to pair with
+    var useLightDark = options.darkModeOutput === 'light-dark' && darkMode !== null;
+    // light-dark() only takes colors — other values that change follow prefers-color-scheme
+    var schemeVariables = [];
+    // Generate :root with default (light) mode
+    lines.push(':root {');
+    if (useLightDark)
+        lines.push('  color-scheme: light dark;');
+    for (var vi = 0; vi < variables.length; vi++) {
+        var variable = variables[vi];
+        var value = variable.valuesByMode[defaultMode.modeId];
+        if (!value)
+            continue;
+        // Check if we should skip this variable
+        if (shouldSkipVariable(variable, value, outputtedCSSNames, errors)) {
+            continue;
+        }
+        var cssValue = formatCSSValue(value, variable, options);
+        if (cssValue !== null) {
+            if (useLightDark) {
+                var darkValue = variable.valuesByMode[darkMode.modeId];
+                var darkCss = darkValue ? formatCSSValue(darkValue, variable, options) : null;
+                if (darkCss !== null && darkCss !== cssValue) {
+                    if (variable.resolvedType === 'COLOR') {
+                        cssValue = 'light-dark(' + cssValue + ', ' + darkCss + ')';
+                    }
+                    else {
+                        schemeVariables.push(variable.cssName);
+                    }
+                }
+            }
+            if (options.includeIds) {
+                lines.push('  /* ' + variable.id + ' */');
+            }
+            lines.push('  ' + variable.cssName + ': ' + cssValue + ';');
+            outputtedCSSNames.add(variable.cssName);
+        }
+    }
+    lines.push('}');
+    // Every value of a mode, indented for its block. Only variables in the main :root block
+    // are repeated, and all of them — even if a value matches the default, the variable
+    // must be declared for alias resolution. `only` narrows it to the listed CSS names.
+    function modeDeclarations(mode, indent, only) {
+        var declarations = [];
+        for (var vi = 0; vi < variables.length; vi++) {
+            var variable = variables[vi];
+            var modeValue = variable.valuesByMode[mode.modeId];
+            if (!modeValue)
+                continue;
+            if (!outputtedCSSNames.has(variable.cssName))
+                continue;
+            if (only && only.indexOf(variable.cssName) === -1)
+                continue;
+            var modeCss = formatCSSValue(modeValue, variable, options);
+            if (modeCss !== null) {
+                declarations.push(indent + variable.cssName + ': ' + modeCss + ';');
+            }
+        }
+        return declarations;
+    }
+    // Colors of a light/dark pair as light-dark(); other values take the light side, and are
+    // added to `schemeOnly` when the dark side differs
+    function pairDeclarations(light, dark, indent, schemeOnly) {
+        var declarations = [];
+        for (var vi = 0; vi < variables.length; vi++) {
+            var variable = variables[vi];
+            if (!outputtedCSSNames.has(variable.cssName))
+                continue;
+            var lightValue = variable.valuesByMode[light.modeId];
+            var lightCss = lightValue ? formatCSSValue(lightValue, variable, options) : null;
+            if (lightCss === null)
+                continue;
+            var darkValue = variable.valuesByMode[dark.modeId];
+            var darkCss = darkValue ? formatCSSValue(darkValue, variable, options) : null;
+            if (darkCss !== null && darkCss !== lightCss) {
+                if (variable.resolvedType === 'COLOR') {
+                    lightCss = 'light-dark(' + lightCss + ', ' + darkCss + ')';
+                }
+                else {
+                    schemeOnly.push(variable.cssName);
+                }
+            }
+            declarations.push(indent + variable.cssName + ': ' + lightCss + ';');
+        }
+        return declarations;
+    }
+    function pushMediaBlock(condition, declarations, comment) {
+        lines.push('');
+        if (comment)
+            lines.push('/* ' + comment + ' */');
+        lines.push('@media ' + condition + ' {');
+        lines.push('  :root {');
+        for (var di = 0; di < declarations.length; di++) {
+            lines.push(declarations[di]);
+        }
+        lines.push('  }');
+        lines.push('}');
+    }
+    // High contrast modes come after the scheme blocks so they override them
+    var contrastQueries = getContrastQueries(collection.modes, [defaultMode.modeId, darkMode ? darkMode.modeId : '']);
+    // Full block per mode under its theme selector, or in its own file when splitting theme files
+    function pushSelectorBlocks(modes) {
+        for (var mi = 0; mi < modes.length; mi++) {
+            var mode = modes[mi];
+            var selectorLines = selectorBlocks ? [] : lines;
+            if (!selectorBlocks && mi > 0)
+                lines.push('');
+            selectorLines.push(getThemeSelector(mode.name, options) + ' {');
+            var declarations = modeDeclarations(mode, '  ');
+            for (var di = 0; di < declarations.length; di++) {
+                selectorLines.push(declarations[di]);
+            }
+            selectorLines.push('}');
+            if (selectorBlocks)
+                selectorBlocks.push({ modeName: mode.name, lines: selectorLines });
+        }
+    }
+    if (useLightDark) {
+        var light = defaultMode;
+        var dark = darkMode;
+        if (schemeVariables.length > 0) {
+            pushMediaBlock('(prefers-color-scheme: dark)', modeDeclarations(dark, '    ', schemeVariables), 'light-dark() only takes colors - these follow the system preference');
+        }
+        // A light and a dark contrast mode pair up like the system modes
+        if (contrastQueries.length === 2) {
+            var contrastSchemeVariables = [];
+            pushMediaBlock(contrastQueries[0].condition, pairDeclarations(contrastQueries[0].mode, contrastQueries[1].mode, '    ', contrastSchemeVariables));
+            if (contrastSchemeVariables.length > 0) {
+                pushMediaBlock(contrastQueries[1].condition, modeDeclarations(contrastQueries[1].mode, '    ', contrastSchemeVariables));
+            }
+        }
+        else if (contrastQueries.length === 1) {
+            pushMediaBlock(contrastQueries[0].condition, modeDeclarations(contrastQueries[0].mode, '    '));
+        }
+        // color-scheme picks the light-dark() side for the subtree; non-color values are set directly
+        if (options.colorSchemeSelectors) {
+            var forced = [{ scheme: 'light', mode: light }, { scheme: 'dark', mode: dark }];
+            for (var fi = 0; fi < forced.length; fi++) {
+                lines.push('');
+                lines.push(getThemeSelector(forced[fi].mode.name, options) + ' {');
+                lines.push('  color-scheme: ' + forced[fi].scheme + ';');
+                var declarations = modeDeclarations(forced[fi].mode, '  ', schemeVariables);
+                for (var di = 0; di < declarations.length; di++) {
+                    lines.push(declarations[di]);
+                }
+                lines.push('}');
+            }
+        }
+        // Modes beyond the light/dark pair can't be expressed with light-dark()
+        var otherModes = collection.modes.filter(function (m) { return m.modeId !== light.modeId && m.modeId !== dark.modeId; });
+        if (otherModes.length > 0) {
+            if (!selectorBlocks) {
+                lines.push('');
+                lines.push('/* Other theme modes */');
+            }
+            pushSelectorBlocks(otherModes);
+        }
+        return lines;
+    }
+    var usePrefersColorScheme = options.darkModeOutput === 'prefers-color-scheme' || options.darkModeOutput === 'both';
+    var useClass = options.darkModeOutput === 'class' || options.darkModeOutput === 'both';
+    // Generate @media (prefers-color-scheme) for the system light and dark modes
+    if (usePrefersColorScheme && darkMode) {
+        pushMediaBlock('(prefers-color-scheme: light)', modeDeclarations(defaultMode, '    '));
+        pushMediaBlock('(prefers-color-scheme: dark)', modeDeclarations(darkMode, '    '));
+    }
+    // Generate @media (prefers-contrast: more) for the high contrast modes
+    if (usePrefersColorScheme) {
+        for (var qi = 0; qi < contrastQueries.length; qi++) {
+            pushMediaBlock(contrastQueries[qi].condition, modeDeclarations(contrastQueries[qi].mode, '    '));
+        }
+    }
+    // Generate an explicit selector per theme mode for manual switching
+    // When splitting theme files, each selector block goes to its own file instead
+    if (useClass) {
+        if (!selectorBlocks) {
+            lines.push('');
+            lines.push('/* Explicit theme selectors - These override system preferences');
+            lines.push('   and enable manual theme switching via JavaScript */');
+        }
+        pushSelectorBlocks(collection.modes);
+    }
+    else {
+        // Modes no system preference stands for still need a way to be switched to
+        var covered = usePrefersColorScheme
+            ? [defaultMode.modeId, darkMode ? darkMode.modeId : ''].concat(contrastQueries.map(function (q) { return q.mode.modeId; }))
+            : [defaultMode.modeId];
+        var otherModes = collection.modes.filter(function (m) { return covered.indexOf(m.modeId) === -1; });
+        if (otherModes.length > 0) {
+            if (!selectorBlocks) {
+                lines.push('');
+                lines.push('/* Other theme modes */');
+            }
+            pushSelectorBlocks(otherModes);
+        }
+    }
+    return lines;
+}
+// Variant collections (brands, density): the default mode in the base block, then each
+// other mode under its selector. Like theme blocks, every declared variable is repeated
+// per mode so each block is complete. In container mode the base block is on every
+// element, so a selector also has to cover the elements below it.
+function generateVariantCSS(collection, variables, options, outputtedCSSNames, errors) {
+    var lines = [];
+    var defaultMode = getDefaultMode(collection);
+    var declared = [];
+    lines.push(tokenSelector(options) + ' {');
+    for (var vi = 0; vi < variables.length; vi++) {
+        var variable = variables[vi];
+        var value = variable.valuesByMode[defaultMode.modeId];
+        if (!value)
+            continue;
+        if (shouldSkipVariable(variable, value, outputtedCSSNames, errors)) {
+            continue;
+        }
+        var cssValue = formatCSSValue(value, variable, options);
+        if (cssValue !== null) {
+            if (options.includeIds) {
+                lines.push('  /* ' + variable.id + ' */');
+            }
+            lines.push('  ' + variable.cssName + ': ' + cssValue + ';');
+            outputtedCSSNames.add(variable.cssName);
+            declared.push(variable);
+        }
+    }
+    lines.push('}');
+    for (var mi = 0; mi < collection.modes.length; mi++) {
+        var mode = collection.modes[mi];
+        if (mode.modeId === defaultMode.modeId)
+            continue;
+        var selector = getVariantSelector(mode.name, options);
+        var blockLines = [];
+        for (var vi = 0; vi < declared.length; vi++) {
+            var modeValue = declared[vi].valuesByMode[mode.modeId];
+            if (!modeValue)
+                continue;
+            var modeCss = formatCSSValue(modeValue, declared[vi], options);
+            if (modeCss !== null) {
+                blockLines.push('  ' + declared[vi].cssName + ': ' + modeCss + ';');
+            }
+        }
+        if (blockLines.length === 0)
+            continue;
+        lines.push('');
+        lines.push((options.outputMode === 'container' ? selector + ', ' + selector + ' *' : selector) + ' {');
+        for (var li = 0; li < blockLines.length; li++) {
+            lines.push(blockLines[li]);
+        }
+        lines.push('}');
+    }
+    return lines;
+}
+// Maps tokens to system colors while forced colors (Windows High Contrast) are active.
+// Declared on every element so theme and variant selectors on nested elements can't win.
+function generateForcedColorsCSS(options, outputtedCSSNames, errors) {
+    var mapping = options.forcedColors || {};
+    var cssNames = Object.keys(mapping);
+    var declarations = [];
+    for (var i = 0; i < cssNames.length; i++) {
+        var cssName = cssNames[i];
+        var requested = String(mapping[cssName]).trim();
+        var systemColor = null;
+        for (var ci = 0; ci < SYSTEM_COLORS.length; ci++) {
+            if (SYSTEM_COLORS[ci].toLowerCase() === requested.toLowerCase())
+                systemColor = SYSTEM_COLORS[ci];
+        }
+        if (!outputtedCSSNames.has(cssName)) {
+            errors.push('Forced colors: ' + cssName + ' is not in the export');
+        }
+        else if (!systemColor) {
+            errors.push('Forced colors: ' + requested + ' for ' + cssName + ' is not a CSS system color');
+        }
+        else {
+            declarations.push('    ' + cssName + ': ' + systemColor + ';');
+        }
+    }
+    if (declarations.length === 0)
+        return [];
+    return ['@media (forced-colors: active) {', '  :root, :root * {'].concat(declarations, ['  }', '}']);
+}
+function generateSingleModeCSS(collection, variables, options, outputtedCSSNames, errors) {
+    var lines = [];
+    var mode = collection.modes[0];
+    lines.push(tokenSelector(options) + ' {');
+    for (var vi = 0; vi < variables.length; vi++) {
+        var variable = variables[vi];
+        var value = variable.valuesByMode[mode.modeId];
+        if (!value)
+            continue;
+        // Check if we should skip this variable
+        if (shouldSkipVariable(variable, value, outputtedCSSNames, errors)) {
+            continue;
+        }
+        var cssValue = formatCSSValue(value, variable, options);
+        if (cssValue !== null) {
+            if (options.includeIds) {
+                lines.push('  /* ' + variable.id + ' */');
+            }
+            lines.push('  ' + variable.cssName + ': ' + cssValue + ';');
+            outputtedCSSNames.add(variable.cssName);
+        }
+    }
+    lines.push('}');
+    return lines;
+}
+function formatCSSValue(value, variable, options) {
+    if (options.aliasMode === 'preserved' && value.isAlias && value.aliasName) {
+        return 'var(' + value.aliasName + ')';
+    }
+    if (value.resolved === null)
+        return null;
+    if (variable.resolvedType === 'COLOR') {
+        if (options.colorGamut === 'p3' && value.wideGamut)
+            return value.wideGamut;
+        return String(value.resolved);
+    }
+    else if (variable.resolvedType === 'FLOAT') {
+        if (isUnitless(variable)) {
+            return String(round(value.resolved, 2));
+        }
+        return formatLength(value.resolved, lengthUnit(variable, options), options);
+    }
+    else if (variable.resolvedType === 'STRING') {
+        // Font-style keywords (italic, oblique, normal) should be unquoted in CSS
+        if (typeof value.resolved === 'string' && isFontStyleValue(value.resolved)) {
+            return value.resolved.toLowerCase().trim();
+        }
+        return cssString(String(value.resolved));
+    }
+    else if (variable.resolvedType === 'BOOLEAN') {
+        return String(value.resolved);
+    }
+    return String(value.resolved);
+}
+// Quoted CSS string: backslashes, quotes and line breaks escaped so the value can't end it
+function cssString(text) {
+    return '"' + text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\a ') + '"';
+}
+function round(value, decimals) {
+    var factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+}
+// ============================================
+// TEXT STYLE EXPORT (FEAT-04)
+// ============================================
+// Slugify a Figma text style name to a CSS-safe identifier
+// e.g., "Short-form/Heading/Heading 1" → "heading-heading-1"
+function generateTextStyleName(styleName) {
+    // Remove common prefixes like "Short-form/" or "Long-form/"
+    var cleaned = styleName
+        .replace(/^(?:Short-form|Long-form|SF|LF)\s*\/\s*/i, '');
+    return cleaned
+        .toLowerCase()
+        .replace(/\//g, '-')
+        .replace(/\s+/g, '-')
+        .replace(/[^a-z0-9-]/g, '-')
+        .replace(/-{2,}/g, '-')
+        .replace(/^-+|-+$/g, '');
+}
+// Map Figma font style name to CSS numeric font-weight
+function figmaStyleToWeight(styleName) {
+    var lower = styleName.toLowerCase();
+    if (lower.indexOf('thin') !== -1 || lower.indexOf('hairline') !== -1)
+        return 100;
+    if (lower.indexOf('extralight') !== -1 || lower.indexOf('ultralight') !== -1)
+        return 200;
+    if (lower.indexOf('light') !== -1)
+        return 300;
+    if (lower.indexOf('medium') !== -1)
+        return 500;
+    if (lower.indexOf('semibold') !== -1 || lower.indexOf('demibold') !== -1)
+        return 600;
+    if (lower.indexOf('extrabold') !== -1 || lower.indexOf('ultrabold') !== -1)
+        return 800;
+    if (lower.indexOf('bold') !== -1)
+        return 700;
+    if (lower.indexOf('black') !== -1 || lower.indexOf('heavy') !== -1)
+        return 900;
+    return 400; // Regular/Normal
+}
+// Extract raw CSS value from a text style property
+function formatRawTextProperty(style, property) {
+    switch (property) {
+        case 'fontFamily':
+            return cssString(style.fontName.family);
+        case 'fontSize':
+            return round(style.fontSize, 2) + 'px';
+        case 'fontWeight':
+            return String(figmaStyleToWeight(style.fontName.style));
+        case 'fontStyle':
+            return style.fontName.style.toLowerCase().indexOf('italic') !== -1 ? 'italic' : 'normal';
+        case 'lineHeight': {
+            var lh = style.lineHeight;
+            if (lh.unit === 'PIXELS') {
+                return round(lh.value, 2) + 'px';
+            }
+            else if (lh.unit === 'PERCENT') {
+                return round(lh.value / 100, 2).toFixed(2);
+            }
+            return 'normal';
+        }
+        case 'letterSpacing': {
+            var ls = style.letterSpacing;
+            if (ls.unit === 'PIXELS') {
+                return round(ls.value, 2) + 'px';
+            }
+            else if (ls.unit === 'PERCENT') {
+                return round(ls.value / 100, 3).toFixed(3) + 'em';
+            }
+            return '0px';
+        }
+        default:
+            return '';
+    }
+}
+// Resolve a text style property to a var() reference if bound to a variable, else raw value
+// NOTE: Fallback values are intentionally omitted from var() references because the bound
+// variable is typically responsive (different values per breakpoint via clamp() or @media).
+// A static fallback like "20px" would be incorrect when the variable resolves to different
+// values across viewports. The var() reference alone is correct — if the variable is missing,
+// the browser's inherited/initial value is a safer fallback than a wrong static value.
+function resolveTextStyleProperty(style, property, variableMap) {
+    var boundVars = style.boundVariables;
+    if (boundVars && boundVars[property]) {
+        var binding = boundVars[property];
+        var varId = null;
+        if (typeof binding === 'object' && binding !== null && 'id' in binding) {
+            varId = binding.id;
+        }
+        if (varId) {
+            var varInfo = variableMap.get(varId);
+            if (varInfo) {
+                return { value: formatRawTextProperty(style, property), varRef: 'var(' + varInfo.cssName + ')' };
+            }
+        }
+    }
+    return { value: formatRawTextProperty(style, property), varRef: null };
+}
+// Generate the text styles CSS section
+function generateTextStyleCSS(textStyles, options, variableMap) {
+    var lines = [];
+    if (textStyles.length === 0)
+        return lines;
+    lines.push('/* --------------------------------------------------------------------------');
+    lines.push('   TEXT STYLES — Composite typography tokens from Figma Text Styles');
+    lines.push('   Format: ' + (options.textStyleFormat === 'scss-mixin' ? 'SCSS Mixins' : options.textStyleFormat === 'css-class' ? 'CSS Classes' : 'CSS Custom Properties'));
+    lines.push('   -------------------------------------------------------------------------- */');
+    lines.push('');
+    // For CSS vars format, wrap in :root
+    if (options.textStyleFormat === 'css-vars') {
+        lines.push(tokenSelector(options) + ' {');
+    }
+    for (var i = 0; i < textStyles.length; i++) {
+        var style = textStyles[i];
+        var cssName = generateTextStyleName(style.name);
+        var family = resolveTextStyleProperty(style, 'fontFamily', variableMap);
+        var size = resolveTextStyleProperty(style, 'fontSize', variableMap);
+        var weight = resolveTextStyleProperty(style, 'fontWeight', variableMap);
+        var fontStyle = resolveTextStyleProperty(style, 'fontStyle', variableMap);
+        var lineHeight = resolveTextStyleProperty(style, 'lineHeight', variableMap);
+        var letterSpacing = resolveTextStyleProperty(style, 'letterSpacing', variableMap);
+        var familyVal = family.varRef || family.value;
+        var sizeVal = size.varRef || size.value;
+        var weightVal = weight.varRef || weight.value;
+        var fontStyleVal = fontStyle.varRef || fontStyle.value;
+        var lineHeightVal = lineHeight.varRef || lineHeight.value;
+        var letterSpacingVal = letterSpacing.varRef || letterSpacing.value;
+        if (options.textStyleFormat === 'scss-mixin') {
+            lines.push('@mixin ' + cssName + ' {');
+            lines.push('  font-family: ' + familyVal + ';');
+            lines.push('  font-size: ' + sizeVal + ';');
+            lines.push('  font-style: ' + fontStyleVal + ';');
+            lines.push('  font-weight: ' + weightVal + ';');
+            lines.push('  line-height: ' + lineHeightVal + ';');
+            lines.push('  letter-spacing: ' + letterSpacingVal + ';');
+            lines.push('}');
+        }
+        else if (options.textStyleFormat === 'css-class') {
+            lines.push('.' + cssName + ' {');
+            lines.push('  font-family: ' + familyVal + ';');
+            lines.push('  font-size: ' + sizeVal + ';');
+            lines.push('  font-style: ' + fontStyleVal + ';');
+            lines.push('  font-weight: ' + weightVal + ';');
+            lines.push('  line-height: ' + lineHeightVal + ';');
+            lines.push('  letter-spacing: ' + letterSpacingVal + ';');
+            lines.push('}');
+        }
+        else if (options.textStyleFormat === 'css-vars') {
+            lines.push('  --' + cssName + '-family: ' + familyVal + ';');
+            lines.push('  --' + cssName + '-size: ' + sizeVal + ';');
+            lines.push('  --' + cssName + '-style: ' + fontStyleVal + ';');
+            lines.push('  --' + cssName + '-weight: ' + weightVal + ';');
+            lines.push('  --' + cssName + '-line-height: ' + lineHeightVal + ';');
+            lines.push('  --' + cssName + '-letter-spacing: ' + letterSpacingVal + ';');
+        }
+        lines.push('');
+    }
+    // Close :root for CSS vars format
+    if (options.textStyleFormat === 'css-vars') {
+        lines.push('}');
+    }
+    return lines;
+}
+// Same character rules as generateCSSName, applied to a single path segment
+function tokenPathSegment(segment) {
+    return segment
+        .toLowerCase()
+        .replace(/\./g, '-')
+        .replace(/,/g, '-')
+        .replace(/\s+/g, '-')
+        .replace(/[^a-z0-9-]/g, '-')
+        .replace(/-{3,}/g, '--')
+        .replace(/^-+|-+$/g, '');
+}
+// Token path mirroring the CSS name: "micro/5" in "Space - 1. Foundations" → ["space", "micro", "5"]
+// Mappings carry no domain prefix, exactly like their custom property names.
+function getTokenPath(variable) {
+    var segments = [];
+    var parts = variable.name.split('/');
+    for (var i = 0; i < parts.length; i++) {
+        var segment = tokenPathSegment(parts[i]);
+        if (segment)
+            segments.push(segment);
+    }
+    var joined = segments.join('-');
+    var bare = variable.cssName.substring(2);
+    if (bare !== joined && bare.length > joined.length && bare.substring(bare.length - joined.length - 1) === '-' + joined) {
+        segments.unshift(bare.substring(0, bare.length - joined.length - 1));
+    }
+    return segments;
+}
+function getDTCGType(variable) {
+    var nameLower = variable.name.toLowerCase();
+    if (variable.resolvedType === 'COLOR')
+        return 'color';
+    if (variable.resolvedType === 'FLOAT') {
+        if (!isUnitless(variable))
+            return 'dimension';
+        return matchesAsSegment(nameLower, 'weight') ? 'fontWeight' : 'number';
+    }
+    if (variable.resolvedType === 'STRING' && nameLower.indexOf('family') !== -1)
+        return 'fontFamily';
+    // DTCG has no generic string/boolean type — the Figma type is kept in $extensions
+    return null;
+}
+// DTCG $value for one mode: "{path.to.token}" for aliases, hex for colours, "16px" for dimensions
+function formatDTCGValue(value, variable, variableMap) {
+    if (!value)
+        return null;
+    if (value.isAlias) {
+        var target = value.aliasId ? variableMap.get(value.aliasId) : undefined;
+        return target ? '{' + getTokenPath(target).join('.') + '}' : null;
+    }
+    if (value.resolved === null)
+        return null;
+    if (variable.resolvedType === 'COLOR') {
+        return rgbToHex(value.raw);
+    }
+    else if (variable.resolvedType === 'FLOAT') {
+        var rounded = round(value.resolved, 2);
+        return isUnitless(variable) ? rounded : rounded + 'px';
+    }
+    else if (variable.resolvedType === 'BOOLEAN') {
+        return value.resolved === 1;
+    }
+    return value.resolved;
+}
+// Insert a token into the nested group tree. A path can hold either a token or a group.
+function insertDTCGToken(root, path, token, variable, errors) {
+    var node = root;
+    for (var i = 0; i < path.length - 1; i++) {
+        var child = node[path[i]];
+        if (child && child.$value !== undefined) {
+            errors.push('DTCG: ' + variable.name + ' is nested under token ' + path.slice(0, i + 1).join('.') + ' (skipped)');
+            return;
+        }
+        if (!child) {
+            child = {};
+            node[path[i]] = child;
+        }
+        node = child;
+    }
+    var leaf = path[path.length - 1];
+    if (node[leaf]) {
+        errors.push('DTCG: duplicate token path ' + path.join('.') + ' for ' + variable.name + ' (' + variable.collectionName + ', skipped)');
+        return;
+    }
+    node[leaf] = token;
+}
+// Export the token graph as a Design Tokens Community Group .tokens.json file.
+// $value holds the collection's default mode; every mode's value is kept in
+// $extensions["com.figma"].modes for multi-mode collections.
+function generateDTCGJSON(collectionGroups, collections, variableMap, options, errors) {
+    var root = {};
+    var sortedCollections = sortCollectionsForOutput(collectionGroups, collections);
+    for (var ci = 0; ci < sortedCollections.length; ci++) {
+        var collection = sortedCollections[ci];
+        var variables = collectionGroups.get(collection.id) || [];
+        var defaultMode = getDefaultMode(collection);
+        for (var vi = 0; vi < variables.length; vi++) {
+            var variable = variables[vi];
+            var path = getTokenPath(variable);
+            if (path.length === 0)
+                continue;
+            var defaultValue = formatDTCGValue(variable.valuesByMode[defaultMode.modeId], variable, variableMap);
+            if (defaultValue === null)
+                continue;
+            // Aliases that mirror a foundation under the same name would reference themselves
+            if (defaultValue === '{' + path.join('.') + '}')
+                continue;
+            var token = { $value: defaultValue };
+            var type = getDTCGType(variable);
+            if (type)
+                token.$type = type;
+            if (variable.description)
+                token.$description = variable.description;
+            var figmaExtension = { collection: collection.name, type: variable.resolvedType };
+            if (options.includeIds)
+                figmaExtension.variableId = variable.id;
+            if (collection.modes.length > 1) {
+                var modes = {};
+                for (var mi = 0; mi < collection.modes.length; mi++) {
+                    var mode = collection.modes[mi];
+                    var modeValue = formatDTCGValue(variable.valuesByMode[mode.modeId], variable, variableMap);
+                    if (modeValue !== null)
+                        modes[mode.name] = modeValue;
+                }
+                figmaExtension.modes = modes;
+            }
+            token.$extensions = { 'com.figma': figmaExtension };
+            insertDTCGToken(root, path, token, variable, errors);
+        }
+    }
+    return JSON.stringify(root, null, 2) + '\n';
+}
+// ============================================
+// SCSS EXPORT
+// ============================================
+// Sass identifiers cannot start with a digit
+function scssIdentifier(cssName) {
+    var bare = cssName.replace(/^--/, '');
+    return /^[0-9]/.test(bare) ? 'token-' + bare : bare;
+}
+// Breakpoint modes of the exported collections, with the widths the CSS output gives
+// them: one entry per width, keyed by lowercase mode name. Without any breakpoint
+// collection, the export's breakpoint table.
+function getDocumentBreakpoints(collectionGroups, collections, options) {
+    var table = getBreakpoints(options);
+    var breakpoints = {};
+    var widths = [];
+    var sortedCollections = sortCollectionsForOutput(collectionGroups, collections);
+    for (var ci = 0; ci < sortedCollections.length; ci++) {
+        var modeInfos = [];
+        for (var mi = 0; mi < sortedCollections[ci].modes.length; mi++) {
+            var mode = sortedCollections[ci].modes[mi];
+            modeInfos.push({ modeId: mode.modeId, name: mode.name, breakpointPx: detectBreakpoint(mode.name, table) });
+        }
+        if (detectModeType(modeInfos) !== 'breakpoint')
+            continue;
+        for (var mi = 0; mi < modeInfos.length; mi++) {
+            if (widths.indexOf(modeInfos[mi].breakpointPx) !== -1)
+                continue;
+            widths.push(modeInfos[mi].breakpointPx);
+            breakpoints[modeInfos[mi].name.trim().toLowerCase()] = modeInfos[mi].breakpointPx;
+        }
+    }
+    return widths.length > 0 ? breakpoints : table;
+}
+// Media query per breakpoint name for the bp() mixin, following the CSS output:
+// the default breakpoint (smallest for mobile-first, largest for desktop-first) has none
+function getBreakpointQueries(breakpoints, options) {
+    var names = Object.keys(breakpoints);
+    var sorted = [];
+    for (var i = 0; i < names.length; i++) {
+        sorted.push({ name: names[i], px: breakpoints[names[i]], query: null });
+    }
+    // Largest first, like the modes in generateBreakpointCSS
+    sorted.sort(function (a, b) { return b.px - a.px; });
+    var isDesktopFirst = options.breakpointDirection !== 'mobile-first';
+    for (var i = 0; i < sorted.length; i++) {
+        if (isDesktopFirst && i > 0) {
+            sorted[i].query = '(max-width: ' + formatBreakpointWidth(sorted[i - 1].px - 1, options) + ')';
+        }
+        else if (!isDesktopFirst && i < sorted.length - 1) {
+            sorted[i].query = '(min-width: ' + formatBreakpointWidth(sorted[i].px, options) + ')';
+        }
+    }
+    return sorted;
+}
+// SCSS companion file: $variables referencing the custom properties, a nested
+// $tokens map per domain and layer, and a bp() mixin for the breakpoint set.
+// Uses global map functions so LibSass-era codebases can consume it.
+function generateSCSS(collectionGroups, collections, outputtedCSSNames, documentBreakpoints, options) {
+    var lines = [];
+    lines.push('// ==========================================================================');
+    lines.push('// DESIGN TOKENS — SCSS bindings for the generated CSS custom properties');
+    lines.push('// Load the CSS file as well: every $token resolves to a var() reference.');
+    lines.push('// ==========================================================================');
+    lines.push('');
+    // domain → layer → [key, identifier]
+    var tokenMap = new Map();
+    var emitted = new Set();
+    var sortedCollections = sortCollectionsForOutput(collectionGroups, collections);
+    for (var ci = 0; ci < sortedCollections.length; ci++) {
+        var collection = sortedCollections[ci];
+        var variables = collectionGroups.get(collection.id) || [];
+        var parsed = parseCollectionName(collection.name);
+        var collectionLines = [];
+        for (var vi = 0; vi < variables.length; vi++) {
+            var variable = variables[vi];
+            // Only custom properties that made it into the CSS (skips duplicates and self-references)
+            if (!outputtedCSSNames.has(variable.cssName) || emitted.has(variable.cssName))
+                continue;
+            emitted.add(variable.cssName);
+            var identifier = scssIdentifier(variable.cssName);
+            collectionLines.push('$' + identifier + ': var(' + variable.cssName + ');');
+            var domainLayers = tokenMap.get(parsed.domain);
+            if (!domainLayers) {
+                domainLayers = new Map();
+                tokenMap.set(parsed.domain, domainLayers);
+            }
+            var layerTokens = domainLayers.get(parsed.layerType);
+            if (!layerTokens) {
+                layerTokens = [];
+                domainLayers.set(parsed.layerType, layerTokens);
+            }
+            // Map keys drop the domain prefix — the domain is already the outer key
+            var key = variable.cssName.substring(2);
+            if (key.indexOf(parsed.domain + '-') === 0)
+                key = key.substring(parsed.domain.length + 1);
+            layerTokens.push({ key: key, identifier: identifier });
+        }
+        if (collectionLines.length > 0) {
+            lines.push('// ' + collection.name);
+            for (var li = 0; li < collectionLines.length; li++) {
+                lines.push(collectionLines[li]);
+            }
+            lines.push('');
+        }
+    }
+    // Nested token map
+    lines.push('$tokens: (');
+    var domains = Array.from(tokenMap.keys());
+    for (var di = 0; di < domains.length; di++) {
+        var domainLayers = tokenMap.get(domains[di]);
+        lines.push("  '" + domains[di] + "': (");
+        var layers = Array.from(domainLayers.keys());
+        for (var li = 0; li < layers.length; li++) {
+            var layerTokens = domainLayers.get(layers[li]);
+            lines.push("    '" + layers[li] + "': (");
+            for (var ti = 0; ti < layerTokens.length; ti++) {
+                var comma = ti < layerTokens.length - 1 ? ',' : '';
+                lines.push("      '" + layerTokens[ti].key + "': $" + layerTokens[ti].identifier + comma);
+            }
+            lines.push('    )' + (li < layers.length - 1 ? ',' : ''));
+        }
+        lines.push('  )' + (di < domains.length - 1 ? ',' : ''));
+    }
+    lines.push(');');
+    lines.push('');
+    // Breakpoints and bp() mixin
+    var breakpoints = getBreakpointQueries(documentBreakpoints, options);
+    lines.push('$breakpoints: (');
+    for (var bi = 0; bi < breakpoints.length; bi++) {
+        lines.push("  '" + breakpoints[bi].name + "': " + breakpoints[bi].px + 'px' + (bi < breakpoints.length - 1 ? ',' : ''));
+    }
+    lines.push(');');
+    lines.push('');
+    lines.push('// ' + (options.breakpointDirection === 'mobile-first' ? 'Mobile-first (min-width)' : 'Desktop-first (max-width)') + ', matching the CSS output');
+    lines.push('$breakpoint-queries: (');
+    for (var bi = 0; bi < breakpoints.length; bi++) {
+        var query = breakpoints[bi].query ? "'" + breakpoints[bi].query + "'" : 'null';
+        lines.push("  '" + breakpoints[bi].name + "': " + query + (bi < breakpoints.length - 1 ? ',' : ''));
+    }
+    lines.push(');');
+    lines.push('');
+    lines.push('@mixin bp($name) {');
+    lines.push('  @if not map-has-key($breakpoint-queries, $name) {');
+    lines.push('    @error "Unknown breakpoint `#{$name}`. Expected one of: #{map-keys($breakpoint-queries)}";');
+    lines.push('  }');
+    lines.push('  $query: map-get($breakpoint-queries, $name);');
+    lines.push('  @if $query {');
+    lines.push('    ' + openBreakpointRule('#{$query}', options));
+    lines.push('      @content;');
+    lines.push('    }');
+    lines.push('  } @else {');
+    lines.push('    @content;');
+    lines.push('  }');
+    lines.push('}');
+    lines.push('');
+    return lines.join('\n');
+}
+var TAILWIND_NAMESPACES = {
+    color: { v4: 'color', v3: 'colors', prefixes: ['color-', 'colors-'] },
+    spacing: { v4: 'spacing', v3: 'spacing', prefixes: ['spacing-', 'space-'] },
+    text: { v4: 'text', v3: 'fontSize', prefixes: ['font-size-', 'size-', 'text-'] },
+    fontWeight: { v4: 'font-weight', v3: 'fontWeight', prefixes: ['font-weight-', 'weight-'] },
+    font: { v4: 'font', v3: 'fontFamily', prefixes: ['font-family-', 'family-', 'font-'] },
+    leading: { v4: 'leading', v3: 'lineHeight', prefixes: ['line-height-', 'leading-'] },
+    tracking: { v4: 'tracking', v3: 'letterSpacing', prefixes: ['letter-spacing-', 'tracking-'] },
+    radius: { v4: 'radius', v3: 'borderRadius', prefixes: ['border-radius-', 'radius-'] }
+};
+var TYPOGRAPHY_DOMAINS = ['typo', 'typography', 'type', 'font', 'text'];
+var SPACING_DOMAINS = ['space', 'spacing', 'gap'];
+// Pick the Tailwind namespace from the collection domain and the variable type
+function getTailwindNamespace(variable) {
+    var name = variable.name.toLowerCase();
+    if (variable.resolvedType === 'COLOR')
+        return TAILWIND_NAMESPACES.color;
+    if (variable.resolvedType === 'STRING') {
+        return name.indexOf('family') !== -1 ? TAILWIND_NAMESPACES.font : null;
+    }
+    if (variable.resolvedType !== 'FLOAT')
+        return null;
+    if (matchesAsSegment(name, 'weight'))
+        return TAILWIND_NAMESPACES.fontWeight;
+    if (name.indexOf('line-height') !== -1 || name.indexOf('line height') !== -1 || matchesAsSegment(name, 'leading'))
+        return TAILWIND_NAMESPACES.leading;
+    if (name.indexOf('letter-spacing') !== -1 || name.indexOf('letter spacing') !== -1 || matchesAsSegment(name, 'tracking'))
+        return TAILWIND_NAMESPACES.tracking;
+    if (variable.domain === 'radius' || matchesAsSegment(name, 'radius'))
+        return TAILWIND_NAMESPACES.radius;
+    if (TYPOGRAPHY_DOMAINS.indexOf(variable.domain) !== -1 && matchesAsSegment(name, 'size'))
+        return TAILWIND_NAMESPACES.text;
+    if (SPACING_DOMAINS.indexOf(variable.domain) !== -1)
+        return TAILWIND_NAMESPACES.spacing;
+    return null;
+}
+// Theme key without the domain and the words the namespace already implies:
+// --typo-size-heading-1 in the "text" namespace → heading-1
+function getTailwindKey(variable, namespace) {
+    var key = variable.cssName.substring(2);
+    if (key.indexOf(variable.domain + '-') === 0)
+        key = key.substring(variable.domain.length + 1);
+    var stripped = true;
+    while (stripped) {
+        stripped = false;
+        for (var i = 0; i < namespace.prefixes.length; i++) {
+            var prefix = namespace.prefixes[i];
+            if (key.indexOf(prefix) === 0 && key.length > prefix.length) {
+                key = key.substring(prefix.length);
+                stripped = true;
+            }
+        }
+    }
+    return key;
+}
+// Group exported custom properties by Tailwind namespace; the first token wins a key
+function collectTailwindTokens(collectionGroups, collections, outputtedCSSNames) {
+    var result = new Map();
+    var usedKeys = new Set();
+    var sortedCollections = sortCollectionsForOutput(collectionGroups, collections);
+    for (var ci = 0; ci < sortedCollections.length; ci++) {
+        var variables = collectionGroups.get(sortedCollections[ci].id) || [];
+        for (var vi = 0; vi < variables.length; vi++) {
+            var variable = variables[vi];
+            if (!outputtedCSSNames.has(variable.cssName))
+                continue;
+            var namespace = getTailwindNamespace(variable);
+            if (!namespace)
+                continue;
+            var key = getTailwindKey(variable, namespace);
+            if (usedKeys.has(namespace.v4 + ':' + key))
+                continue;
+            usedKeys.add(namespace.v4 + ':' + key);
+            var list = result.get(namespace);
+            if (!list) {
+                list = [];
+                result.set(namespace, list);
+            }
+            list.push({ key: key, cssName: variable.cssName });
+        }
+    }
+    return result;
+}
+// Tailwind v4: an @theme block pointing at the generated custom properties.
+// `inline` makes utilities use var(--token) directly instead of the theme variable.
+function generateTailwindV4Theme(tokens, documentBreakpoints, options) {
+    var lines = [];
+    lines.push('/* ==========================================================================');
+    lines.push('   TAILWIND THEME — Generated from Figma Variables (Tailwind CSS v4)');
+    lines.push('   Import after tailwindcss and keep the token CSS unlayered: its :root values');
+    lines.push('   must win over the theme layer where names match (e.g. --color-*).');
+    lines.push('   ========================================================================== */');
+    lines.push('');
+    lines.push('@theme inline {');
+    // Breakpoints must be literal values — Tailwind uses them inside media queries
+    var breakpoints = getBreakpointQueries(documentBreakpoints, options);
+    for (var bi = breakpoints.length - 1; bi >= 0; bi--) {
+        lines.push('  --breakpoint-' + slugify(breakpoints[bi].name) + ': ' + formatBreakpointWidth(breakpoints[bi].px, options) + ';');
+    }
+    tokens.forEach(function (list, namespace) {
+        lines.push('');
+        for (var i = 0; i < list.length; i++) {
+            lines.push('  --' + namespace.v4 + '-' + list[i].key + ': var(' + list[i].cssName + ');');
+        }
+    });
+    lines.push('}');
+    lines.push('');
+    return lines.join('\n');
+}
+// Tailwind v3: a preset whose theme.extend points at the generated custom properties
+// Use with `presets: [require('./tailwind.tokens.js')]` in tailwind.config.js
+function generateTailwindV3Config(tokens, documentBreakpoints, options) {
+    var lines = [];
+    lines.push('// Generated from Figma Variables (Tailwind CSS v3 preset)');
+    lines.push("// Usage: presets: [require('./tailwind.tokens.js')] in tailwind.config.js");
+    lines.push('module.exports = {');
+    lines.push('  theme: {');
+    lines.push('    extend: {');
+    // Desktop-first screens use max-width ranges, matching the CSS media queries.
+    // Tailwind expects max-width screens largest first and min-width screens smallest first.
+    var breakpoints = getBreakpointQueries(documentBreakpoints, options);
+    var isDesktopFirst = options.breakpointDirection !== 'mobile-first';
+    lines.push('      screens: {');
+    if (isDesktopFirst) {
+        for (var bi = 1; bi < breakpoints.length; bi++) {
+            lines.push("        '" + slugify(breakpoints[bi].name) + "': { max: '" + formatBreakpointWidth(breakpoints[bi - 1].px - 1, options) + "' },");
+        }
+    }
+    else {
+        for (var bi = breakpoints.length - 1; bi >= 0; bi--) {
+            lines.push("        '" + slugify(breakpoints[bi].name) + "': '" + formatBreakpointWidth(breakpoints[bi].px, options) + "',");
+        }
+    }
+    lines.push('      },');
+    tokens.forEach(function (list, namespace) {
+        lines.push('      ' + namespace.v3 + ': {');
+        for (var i = 0; i < list.length; i++) {
+            lines.push("        '" + list[i].key + "': 'var(" + list[i].cssName + ")',");
+        }
+        lines.push('      },');
+    });
+    lines.push('    },');
+    lines.push('  },');
+    lines.push('};');
+    lines.push('');
+    return lines.join('\n');
+}
+// ============================================
+// TYPESCRIPT TOKENS
+// ============================================
+function tsString(value) {
+    return "'" + value.replace(/\\/g, '\\\\').replace(/'/g, "\\'") + "'";
+}
+function tsKey(key) {
+    return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? key : tsString(key);
+}
+// Raw value for one mode: hex for colours, numbers as-is, var() for aliases
+function formatTypeScriptValue(value, variable, variableMap) {
+    if (!value)
+        return null;
+    if (value.isAlias) {
+        var target = value.aliasId ? variableMap.get(value.aliasId) : undefined;
+        return target ? tsString('var(' + target.cssName + ')') : null;
+    }
+    if (value.resolved === null)
+        return null;
+    if (variable.resolvedType === 'COLOR') {
+        return tsString(rgbToHex(value.raw));
+    }
+    else if (variable.resolvedType === 'FLOAT') {
+        return String(round(value.resolved, 4));
+    }
+    else if (variable.resolvedType === 'BOOLEAN') {
+        return value.resolved === 1 ? 'true' : 'false';
+    }
+    return tsString(String(value.resolved));
+}
+function writeTypeScriptNode(node, indent, lines) {
+    var keys = Object.keys(node);
+    for (var i = 0; i < keys.length; i++) {
+        var child = node[keys[i]];
+        if (typeof child === 'string') {
+            lines.push(indent + tsKey(keys[i]) + ': ' + child + ',');
+        }
+        else {
+            lines.push(indent + tsKey(keys[i]) + ': {');
+            writeTypeScriptNode(child, indent + '  ', lines);
+            lines.push(indent + '},');
+        }
+    }
+}
+// Typed token module: a nested `as const` object following the token paths,
+// whose leaves carry the custom property name, its var() and the raw mode values,
+// plus a TokenName union of every exported custom property.
+function generateTypeScriptTokens(collectionGroups, collections, variableMap, outputtedCSSNames, errors) {
+    // Leaves are pre-rendered strings; groups are plain objects
+    var root = {};
+    var tokenNames = [];
+    var seenCSSNames = new Set();
+    var sortedCollections = sortCollectionsForOutput(collectionGroups, collections);
+    for (var ci = 0; ci < sortedCollections.length; ci++) {
+        var collection = sortedCollections[ci];
+        var variables = collectionGroups.get(collection.id) || [];
+        for (var vi = 0; vi < variables.length; vi++) {
+            var variable = variables[vi];
+            // Aliases mirroring a foundation under the same name share its custom property
+            if (!outputtedCSSNames.has(variable.cssName) || seenCSSNames.has(variable.cssName))
+                continue;
+            var path = getTokenPath(variable);
+            if (path.length === 0)
+                continue;
+            var values = [];
+            for (var mi = 0; mi < collection.modes.length; mi++) {
+                var mode = collection.modes[mi];
+                var modeValue = formatTypeScriptValue(variable.valuesByMode[mode.modeId], variable, variableMap);
+                if (modeValue !== null)
+                    values.push(tsKey(mode.name) + ': ' + modeValue);
+            }
+            var leaf = '{ name: ' + tsString(variable.cssName) +
+                ', var: ' + tsString('var(' + variable.cssName + ')') +
+                ', values: { ' + values.join(', ') + ' } }';
+            var node = root;
+            var conflict = false;
+            for (var pi = 0; pi < path.length - 1; pi++) {
+                var child = node[path[pi]];
+                if (typeof child === 'string') {
+                    conflict = true;
+                    break;
+                }
+                if (!child) {
+                    child = {};
+                    node[path[pi]] = child;
+                }
+                node = child;
+            }
+            var leafKey = path[path.length - 1];
+            if (conflict || node[leafKey] !== undefined) {
+                errors.push('TypeScript: token path ' + path.join('.') + ' for ' + variable.name + ' (' + variable.collectionName + ') conflicts with another token (skipped)');
+                continue;
+            }
+            node[leafKey] = leaf;
+            seenCSSNames.add(variable.cssName);
+            tokenNames.push(variable.cssName);
+        }
+    }
+    var lines = [];
+    lines.push('// Generated from Figma Variables — do not edit by hand');
+    lines.push('');
+    lines.push('export const tokens = {');
+    writeTypeScriptNode(root, '  ', lines);
+    lines.push('} as const;');
+    lines.push('');
+    lines.push('export type Tokens = typeof tokens;');
+    lines.push('');
+    if (tokenNames.length === 0) {
+        lines.push('export type TokenName = never;');
+    }
+    else {
+        lines.push('export type TokenName =');
+        for (var ti = 0; ti < tokenNames.length; ti++) {
+            lines.push('  | ' + tsString(tokenNames[ti]) + (ti === tokenNames.length - 1 ? ';' : ''));
+        }
+    }
+    lines.push('');
+    lines.push('export type TokenVar = `var(${TokenName})`;');
+    lines.push('');
+    return lines.join('\n');
+}
+// ============================================
+// ALIAS GRAPH
+// ============================================
+var LAYER_LABELS = {
+    'foundations': 'Foundations',
+    'aliases': 'Aliases',
+    'aliases-extended': 'Aliases Extended',
+    'mappings': 'Mappings',
+    'other': 'Other'
+};
+// Nodes for the selected variables plus the variables their aliases reach, in snapshot
+// order, and one edge per alias target with the modes it applies in
+function buildAliasGraph(selected, allVariables, variableMap, collectionModes, options) {
+    var closure = getAliasClosure(selected.map(function (v) { return v.id; }), variableMap);
+    var graph = { nodes: [], edges: [] };
+    for (var vi = 0; vi < allVariables.length; vi++) {
+        var variable = allVariables[vi];
+        if (!closure.has(variable.id))
+            continue;
+        var ownModes = collectionModes.get(variable.collectionId) || [];
+        var chains = [];
+        var multiModeSource = ownModes.length === 1 ? findMultiModeCollection(variable.valuesByMode[ownModes[0].modeId], variableMap, collectionModes) : null;
+        var chainModes = multiModeSource ? collectionModes.get(multiModeSource) || [] : ownModes;
+        for (var mi = 0; mi < chainModes.length; mi++) {
+            var value = variable.valuesByMode[multiModeSource ? ownModes[0].modeId : chainModes[mi].modeId];
+            if (value)
+                chains.push(getAliasChain(variable, value, chainModes[mi], variableMap, collectionModes, options));
+        }
+        var targetModes = new Map();
+        for (var mi = 0; mi < ownModes.length; mi++) {
+            var ownValue = variable.valuesByMode[ownModes[mi].modeId];
+            if (!ownValue || !ownValue.isAlias || !ownValue.aliasId || !variableMap.has(ownValue.aliasId))
+                continue;
+            if (!targetModes.has(ownValue.aliasId))
+                targetModes.set(ownValue.aliasId, []);
+            targetModes.get(ownValue.aliasId).push(ownModes[mi].name);
+        }
+        targetModes.forEach(function (modeNames, targetId) {
+            graph.edges.push({ from: variable.id, to: targetId, modes: modeNames.length === ownModes.length ? [] : modeNames });
+        });
+        graph.nodes.push({
+            id: variable.id,
+            name: variable.name,
+            cssName: variable.cssName,
+            collection: variable.collectionName,
+            layerType: variable.layerType,
+            chains: chains
+        });
+    }
+    return graph;
+}
+// Follow one value to its literal in the given mode (pickTargetMode at every step)
+function getAliasChain(variable, value, mode, variableMap, collectionModes, options) {
+    var steps = [variable.cssName];
+    var visited = new Set([variable.id]);
+    var holder = variable;
+    var current = value;
+    while (current && current.isAlias) {
+        var target = current.aliasId ? variableMap.get(current.aliasId) : undefined;
+        if (!target || visited.has(target.id))
+            return { mode: mode.name, steps: steps, value: null };
+        visited.add(target.id);
+        steps.push(target.cssName);
+        var targetMode = pickTargetMode(mode, collectionModes.get(target.collectionId) || []);
+        holder = target;
+        current = targetMode ? target.valuesByMode[targetMode.modeId] : undefined;
+    }
+    var literal = current ? formatCSSValue(current, holder, options) : null;
+    return { mode: mode.name, steps: steps, value: literal };
+}
+// Nodes grouped by layer, then collection, in the order of LAYER_LABELS
+function groupGraphNodes(graph) {
+    var groups = [];
+    var layerTypes = Object.keys(LAYER_LABELS);
+    for (var li = 0; li < layerTypes.length; li++) {
+        var collections = [];
+        for (var ni = 0; ni < graph.nodes.length; ni++) {
+            var node = graph.nodes[ni];
+            if (node.layerType !== layerTypes[li])
+                continue;
+            var group = collections.find(function (c) { return c.name === node.collection; });
+            if (!group) {
+                group = { name: node.collection, nodes: [] };
+                collections.push(group);
+            }
+            group.nodes.push(ni);
+        }
+        if (collections.length > 0)
+            groups.push({ layer: LAYER_LABELS[layerTypes[li]], collections: collections });
+    }
+    return groups;
+}
+// Mermaid flowchart: a subgraph per layer holding one per collection. Arrows point from
+// a token to the token it aliases, labelled with the modes when not every mode does.
+function generateMermaidGraph(graph) {
+    function label(text) {
+        return '"' + text.replace(/"/g, '#quot;') + '"';
+    }
+    var nodeIndex = new Map();
+    graph.nodes.forEach(function (node, i) { nodeIndex.set(node.id, i); });
+    var lines = ['%% Alias dependency graph — generated from Figma Variables', 'flowchart RL'];
+    var groups = groupGraphNodes(graph);
+    for (var gi = 0; gi < groups.length; gi++) {
+        lines.push('  subgraph layer' + gi + '[' + label(groups[gi].layer) + ']');
+        for (var ci = 0; ci < groups[gi].collections.length; ci++) {
+            var collection = groups[gi].collections[ci];
+            lines.push('    subgraph layer' + gi + '_' + ci + '[' + label(collection.name) + ']');
+            for (var ni = 0; ni < collection.nodes.length; ni++) {
+                lines.push('      n' + collection.nodes[ni] + '[' + label(graph.nodes[collection.nodes[ni]].cssName) + ']');
+            }
+            lines.push('    end');
+        }
+        lines.push('  end');
+    }
+    for (var ei = 0; ei < graph.edges.length; ei++) {
+        var edge = graph.edges[ei];
+        var arrow = edge.modes.length > 0 ? ' -->|' + label(edge.modes.join(', ')) + '| ' : ' --> ';
+        lines.push('  n' + nodeIndex.get(edge.from) + arrow + 'n' + nodeIndex.get(edge.to));
+    }
+    return lines.join('\n') + '\n';
+}
+// Graphviz DOT with the same clusters and edges as generateMermaidGraph
+function generateDotGraph(graph) {
+    function quote(text) {
+        return '"' + text.replace(/\\/g, '\\\\').replace(/"/g, '\\"') + '"';
+    }
+    var nodeIndex = new Map();
+    graph.nodes.forEach(function (node, i) { nodeIndex.set(node.id, i); });
+    var lines = ['// Alias dependency graph — generated from Figma Variables', 'digraph tokens {', '  rankdir=RL;', '  node [shape=box, fontname="Helvetica", fontsize=10];'];
+    var groups = groupGraphNodes(graph);
+    for (var gi = 0; gi < groups.length; gi++) {
+        lines.push('  subgraph cluster_' + gi + ' {');
+        lines.push('    label=' + quote(groups[gi].layer) + ';');
+        for (var ci = 0; ci < groups[gi].collections.length; ci++) {
+            var collection = groups[gi].collections[ci];
+            lines.push('    subgraph cluster_' + gi + '_' + ci + ' {');
+            lines.push('      label=' + quote(collection.name) + ';');
+            for (var ni = 0; ni < collection.nodes.length; ni++) {
+                lines.push('      n' + collection.nodes[ni] + ' [label=' + quote(graph.nodes[collection.nodes[ni]].cssName) + '];');
+            }
+            lines.push('    }');
+        }
+        lines.push('  }');
+    }
+    for (var ei = 0; ei < graph.edges.length; ei++) {
+        var edge = graph.edges[ei];
+        var attributes = edge.modes.length > 0 ? ' [label=' + quote(edge.modes.join(', ')) + ']' : '';
+        lines.push('  n' + nodeIndex.get(edge.from) + ' -> n' + nodeIndex.get(edge.to) + attributes + ';');
+    }
+    lines.push('}');
+    return lines.join('\n') + '\n';
+}
+// ============================================
+// STYLE GUIDE
+// ============================================
+function htmlEscape(text) {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+// Self-contained tokens.html: the generated CSS runs in an iframe the viewport slider
+// resizes, so vw, @media and @container values are the ones at that width. Colors get a
+// swatch per mode, lengths a bar measured live, text styles a sample, and every token
+// its description and the alias chain behind each mode's value. The slider stops at the
+// document's breakpoints, the widths the CSS was generated for.
+function generateStyleGuideHTML(css, graph, variableMap, outputtedCSSNames, proportionVars, textStyles, textStyleVariables, documentBreakpoints, options) {
+    var sections = [
+        { title: 'Colors', kind: 'color', nodes: [] },
+        { title: 'Spacing and sizes', kind: 'length', nodes: [] },
+        { title: 'Other tokens', kind: 'other', nodes: [] }
+    ];
+    // Tokens declared in the CSS, once per custom property
+    var seenCSSNames = new Set();
+    for (var ni = 0; ni < graph.nodes.length; ni++) {
+        var node = graph.nodes[ni];
+        var variable = variableMap.get(node.id);
+        if (!variable || !outputtedCSSNames.has(node.cssName) || seenCSSNames.has(node.cssName))
+            continue;
+        seenCSSNames.add(node.cssName);
+        if (variable.resolvedType === 'COLOR') {
+            sections[0].nodes.push(node);
+        }
+        else if (variable.resolvedType === 'FLOAT' && !isUnitless(variable) && proportionVars.indexOf(node.cssName) === -1) {
+            sections[1].nodes.push(node);
+        }
+        else {
+            sections[2].nodes.push(node);
+        }
+    }
+    var body = [];
+    body.push('<h1>Design tokens</h1>');
+    body.push('<p class="sg-meta">Generated from Figma Variables' + (options.includeTimestamp ? ' · ' + new Date().toISOString() : '') + '</p>');
+    if (textStyles.length > 0) {
+        body.push('<h2>Type scale</h2>');
+        for (var ti = 0; ti < textStyles.length; ti++) {
+            var className = generateTextStyleName(textStyles[ti].name);
+            body.push('<div class="sg-type">');
+            body.push('  <div class="' + className + '" data-sg-type>' + htmlEscape(textStyles[ti].name) + '</div>');
+            body.push('  <div class="sg-meta"><code>.' + className + '</code> <span class="sg-live"></span></div>');
+            body.push('</div>');
+        }
+    }
+    for (var si = 0; si < sections.length; si++) {
+        var section = sections[si];
+        if (section.nodes.length === 0)
+            continue;
+        body.push('<h2>' + section.title + '</h2>');
+        var collectionName = null;
+        for (var ni = 0; ni < section.nodes.length; ni++) {
+            var node = section.nodes[ni];
+            if (node.collection !== collectionName) {
+                collectionName = node.collection;
+                body.push('<h3>' + htmlEscape(collectionName) + '</h3>');
+            }
+            var description = variableMap.get(node.id).description;
+            body.push('<div class="sg-token">');
+            body.push('  <div class="sg-token-name"><code>' + htmlEscape(node.cssName) + '</code> <span class="sg-live" data-sg-var="' + htmlEscape(node.cssName) + '"></span></div>');
+            if (description)
+                body.push('  <p class="sg-description">' + htmlEscape(description) + '</p>');
+            if (section.kind === 'length') {
+                body.push('  <div class="sg-bar-track"><div class="sg-bar" data-sg-bar style="width: var(' + node.cssName + ')"></div></div>');
+            }
+            body.push('  <table class="sg-modes">');
+            for (var ci = 0; ci < node.chains.length; ci++) {
+                var chain = node.chains[ci];
+                var swatch = section.kind === 'color' && chain.value !== null
+                    ? '<span class="sg-swatch" style="background: ' + htmlEscape(chain.value) + '"></span>'
+                    : '';
+                var via = chain.steps.length > 1 ? '→ ' + chain.steps.slice(1).map(htmlEscape).join(' → ') : '';
+                body.push('    <tr><th>' + htmlEscape(chain.mode) + '</th><td>' + swatch + '<code>' + (chain.value !== null ? htmlEscape(chain.value) : 'unresolved') + '</code></td><td class="sg-chain">' + via + '</td></tr>');
+            }
+            body.push('  </table>');
+            body.push('</div>');
+        }
+    }
+    // Class rules for the type scale, whatever format the export uses for text styles
+    var typeScale = textStyles.length > 0 && options.textStyleFormat !== 'css-class'
+        ? generateTextStyleCSS(textStyles, Object.assign({}, options, { textStyleFormat: 'css-class' }), textStyleVariables).join('\n')
+        : '';
+    var container = options.outputMode === 'container'
+        ? '  body { container-type: inline-size;' + (options.containerName ? ' container-name: ' + options.containerName + ';' : '') + ' }'
+        : '';
+    var breakpoints = documentBreakpoints;
+    var breakpointNames = Object.keys(breakpoints).sort(function (a, b) { return breakpoints[a] - breakpoints[b]; });
+    var widths = breakpointNames.map(function (name) { return breakpoints[name]; });
+    var minWidth = Math.min.apply(null, [320].concat(widths));
+    var maxWidth = Math.max.apply(null, [1440].concat(widths));
+    var startWidth = widths.length > 0 ? widths[widths.length - 1] : maxWidth;
+    var lines = [];
+    lines.push('<!DOCTYPE html>');
+    lines.push('<html lang="en">');
+    lines.push('<head>');
+    lines.push('<meta charset="utf-8">');
+    lines.push('<title>Design tokens</title>');
+    lines.push('<style>');
+    lines.push('  body { margin: 0; font: 13px/1.4 system-ui, sans-serif; color: #1a1a1f; background: #eef0f3; }');
+    lines.push('  .sg-toolbar { position: sticky; top: 0; z-index: 1; display: flex; align-items: center; gap: 12px; padding: 10px 16px; background: #fff; border-bottom: 1px solid #d8dbe0; }');
+    lines.push('  .sg-toolbar input { flex: 1; max-width: 480px; }');
+    lines.push('  .sg-stage { padding: 16px; overflow-x: auto; }');
+    lines.push('  iframe { display: block; margin: 0 auto; min-height: 80vh; border: 1px solid #d8dbe0; background: #fff; }');
+    lines.push('</style>');
+    lines.push('</head>');
+    lines.push('<body>');
+    lines.push('<div class="sg-toolbar">');
+    lines.push('  <label for="sg-viewport">Viewport</label>');
+    lines.push('  <input type="range" id="sg-viewport" min="' + minWidth + '" max="' + maxWidth + '" value="' + startWidth + '" list="sg-breakpoints">');
+    lines.push('  <output id="sg-width"></output>');
+    lines.push('  <datalist id="sg-breakpoints">');
+    for (var bi = 0; bi < breakpointNames.length; bi++) {
+        lines.push('    <option value="' + breakpoints[breakpointNames[bi]] + '" label="' + htmlEscape(breakpointNames[bi]) + '"></option>');
+    }
+    lines.push('  </datalist>');
+    lines.push('</div>');
+    lines.push('<div class="sg-stage"><iframe id="sg-frame" title="Token preview"></iframe></div>');
+    lines.push('<template id="sg-content">');
+    // `</` would close the <style> or the <template> from inside a string value
+    lines.push('<style>');
+    lines.push(css.replace(/<\//g, '<\\/'));
+    if (typeScale)
+        lines.push(typeScale.replace(/<\//g, '<\\/'));
+    lines.push('</style>');
+    lines.push('<style>');
+    lines.push('  body { margin: 0; padding: 24px; font: 13px/1.4 system-ui, sans-serif; color: #1a1a1f; }');
+    if (container)
+        lines.push(container);
+    lines.push('  h2 { margin: 32px 0 12px; font-size: 18px; }');
+    lines.push('  h3 { margin: 20px 0 8px; font-size: 12px; font-weight: 600; color: #6b7080; }');
+    lines.push('  code { font: 12px ui-monospace, monospace; }');
+    lines.push('  .sg-meta, .sg-description, .sg-chain, .sg-modes th { color: #6b7080; }');
+    lines.push('  .sg-type { padding: 12px 0; border-bottom: 1px solid #e4e6ea; }');
+    lines.push('  .sg-token { padding: 10px 0; border-bottom: 1px solid #e4e6ea; }');
+    lines.push('  .sg-live { margin-left: 8px; font: 11px ui-monospace, monospace; color: #3366e6; }');
+    lines.push('  .sg-description { margin: 4px 0; }');
+    lines.push('  .sg-bar-track { margin: 6px 0; overflow: hidden; }');
+    lines.push('  .sg-bar { height: 8px; min-width: 1px; background: #3366e6; }');
+    lines.push('  .sg-modes { margin-top: 4px; border-collapse: collapse; }');
+    lines.push('  .sg-modes th, .sg-modes td { padding: 2px 16px 2px 0; font-weight: normal; text-align: left; vertical-align: middle; }');
+    lines.push('  .sg-swatch { display: inline-block; width: 16px; height: 16px; margin-right: 6px; vertical-align: middle; border: 1px solid #d8dbe0; border-radius: 3px; }');
+    lines.push('</style>');
+    for (var li = 0; li < body.length; li++)
+        lines.push(body[li]);
+    lines.push('<script>');
+    lines.push('  // Values at the current frame width: lengths measured from their bars, the rest as computed');
+    lines.push('  function measure() {');
+    lines.push('    document.querySelectorAll("[data-sg-var]").forEach(function(el) {');
+    lines.push('      var bar = el.closest(".sg-token").querySelector("[data-sg-bar]");');
+    lines.push('      el.textContent = bar ? Math.round(bar.getBoundingClientRect().width * 100) / 100 + "px" : getComputedStyle(el).getPropertyValue(el.dataset.sgVar).trim();');
+    lines.push('    });');
+    lines.push('    document.querySelectorAll("[data-sg-type]").forEach(function(el) {');
+    lines.push('      var style = getComputedStyle(el);');
+    lines.push('      el.nextElementSibling.querySelector(".sg-live").textContent = style.fontSize + " / " + style.lineHeight;');
+    lines.push('    });');
+    lines.push('    if (window.frameElement) window.frameElement.style.height = document.body.offsetHeight + "px";');
+    lines.push('  }');
+    lines.push('  window.addEventListener("resize", measure);');
+    lines.push('  measure();');
+    lines.push('</script>');
+    lines.push('</template>');
+    lines.push('<script>');
+    lines.push('  var frame = document.getElementById("sg-frame");');
+    lines.push('  var slider = document.getElementById("sg-viewport");');
+    lines.push('  function resize() {');
+    lines.push('    frame.style.width = slider.value + "px";');
+    lines.push('    document.getElementById("sg-width").textContent = slider.value + "px";');
+    lines.push('  }');
+    lines.push('  slider.addEventListener("input", resize);');
+    lines.push('  resize();');
+    lines.push('  frame.srcdoc = document.getElementById("sg-content").innerHTML;');
+    lines.push('</script>');
+    lines.push('</body>');
+    lines.push('</html>');
+    return lines.join('\n') + '\n';
+}
+// ============================================
+// SNAPSHOT INPUT
+// ============================================
+// Accept a VariablesSnapshot as-is, or convert a Figma REST
+// `GET /v1/files/:key/variables/local` response ({ meta: { variables, variableCollections } })
+function parseVariablesSnapshot(json) {
+    if (json && json.meta && json.meta.variables && json.meta.variableCollections) {
+        var collections = [];
+        var variables = [];
+        var collectionIds = Object.keys(json.meta.variableCollections);
+        for (var ci = 0; ci < collectionIds.length; ci++) {
+            var c = json.meta.variableCollections[collectionIds[ci]];
+            collections.push({
+                id: c.id,
+                name: c.name,
+                remote: !!c.remote,
+                modes: c.modes || [],
+                defaultModeId: c.defaultModeId,
+                variableIds: c.variableIds || []
+            });
+        }
+        var variableIds = Object.keys(json.meta.variables);
+        for (var vi = 0; vi < variableIds.length; vi++) {
+            var v = json.meta.variables[variableIds[vi]];
+            // Deleted variables stay in the response while something still references them
+            if (v.deletedButReferenced)
+                continue;
+            variables.push({
+                id: v.id,
+                name: v.name,
+                description: v.description || '',
+                variableCollectionId: v.variableCollectionId,
+                resolvedType: v.resolvedType,
+                valuesByMode: v.valuesByMode || {}
+            });
+        }
+        // The REST response has no color profile; a documentColorProfile added next to meta is kept
+        return { collections: collections, variables: variables, textStyles: json.textStyles || [], documentColorProfile: json.documentColorProfile };
+    }
+    if (json && Array.isArray(json.collections) && Array.isArray(json.variables)) {
+        return json;
+    }
+    throw new Error('Unrecognized snapshot: expected { collections, variables } or a REST variables/local response');
+}
+// Variable to CSS — command line
+// Regenerates the token files from a committed variables snapshot, without Figma:
+//
+//   node cli.js --input variables.json [--options export-options.json] [--out dist/tokens] [--color-profile display-p3]
+//
+// The snapshot is a Figma REST `GET /v1/files/:key/variables/local` response or a
+// { collections, variables, textStyles? } object (see VariablesSnapshot in core.ts).
+// The options file holds ExportOptions fields; anything missing uses CLI_DEFAULT_OPTIONS.
+// Without a `breakpoints` table, the widths come from the snapshot's viewport variable.
+var fs = require('fs');
+var path = require('path');
+// Same defaults as the plugin UI, except the timestamp: regenerated files
+// should only change when the tokens do
+var CLI_DEFAULT_OPTIONS = {
+    outputMode: 'fluid',
+    breakpointDirection: 'mobile-first',
+    aliasMode: 'preserved',
+    darkModeOutput: 'both',
+    includeTimestamp: false,
+    includeIds: false,
+    colorFormat: 'hex',
+    includeLegacyFallbacks: false,
+    includeTextStyles: false,
+    textStyleFormat: 'scss-mixin'
+};
+var CLI_USAGE = [
+    'Usage: node cli.js --input <snapshot.json> [--options <options.json>] [--out <dir>] [--color-profile <profile>]',
+    '',
+    '  --input, -i    Variables snapshot (REST variables/local response or { collections, variables })',
+    '  --options      JSON file with ExportOptions overrides',
+    '  --out, -o      Directory to write the output files to; without it the CSS goes to stdout',
+    '  --color-profile  srgb or display-p3: color space of the Figma file (REST responses don\'t include it)',
+    '  --help, -h     Show this message'
+].join('\n');
+function parseCLIArgs(argv) {
+    var args = { input: null, options: null, out: null, colorProfile: null, help: false };
+    for (var i = 0; i < argv.length; i++) {
+        var arg = argv[i];
+        if (arg === '--input' || arg === '-i') {
+            args.input = argv[++i] || null;
+        }
+        else if (arg === '--options') {
+            args.options = argv[++i] || null;
+        }
+        else if (arg === '--out' || arg === '-o') {
+            args.out = argv[++i] || null;
+        }
+        else if (arg === '--color-profile') {
+            var profile = (argv[++i] || '').toLowerCase();
+            if (profile !== 'srgb' && profile !== 'display-p3')
+                throw new Error('--color-profile must be srgb or display-p3');
+            args.colorProfile = profile === 'display-p3' ? 'DISPLAY_P3' : 'SRGB';
+        }
+        else if (arg === '--help' || arg === '-h') {
+            args.help = true;
+        }
+        else {
+            throw new Error('Unknown argument: ' + arg);
+        }
+    }
+    return args;
+}
+function readJSONFile(file) {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+function runCLI(argv) {
+    var args = parseCLIArgs(argv);
+    if (args.help) {
+        process.stdout.write(CLI_USAGE + '\n');
+        return 0;
+    }
+    if (!args.input) {
+        process.stderr.write(CLI_USAGE + '\n');
+        return 1;
+    }
+    var snapshot = parseVariablesSnapshot(readJSONFile(args.input));
+    if (args.colorProfile)
+        snapshot.documentColorProfile = args.colorProfile;
+    var options = Object.assign({}, CLI_DEFAULT_OPTIONS, args.options ? readJSONFile(args.options) : {});
+    // Like the plugin UI: the viewport variable's widths, unless the options bring a table
+    if (!options.breakpoints || Object.keys(options.breakpoints).length === 0) {
+        var detected = extractBreakpointsFromVariables(snapshot);
+        if (detected)
+            options.breakpoints = detected.breakpoints;
+    }
+    var output = generateCSS(snapshot, options);
+    for (var i = 0; i < output.stats.errors.length; i++) {
+        process.stderr.write('warning: ' + output.stats.errors[i] + '\n');
+    }
+    for (var i = 0; i < output.stats.diagnostics.length; i++) {
+        var diagnostic = output.stats.diagnostics[i];
+        process.stderr.write('lint ' + diagnostic.severity + ': ' + diagnostic.variable + ' (' + diagnostic.collection + '): ' + diagnostic.message + ' [' + diagnostic.rule + ']\n');
+    }
+    if (!args.out) {
+        if (output.files.length > 1) {
+            throw new Error('The options produce ' + output.files.length + ' files — pass --out <dir>');
+        }
+        process.stdout.write(output.css);
+        return 0;
+    }
+    fs.mkdirSync(args.out, { recursive: true });
+    for (var i = 0; i < output.files.length; i++) {
+        fs.writeFileSync(path.join(args.out, output.files[i].name), output.files[i].content);
+    }
+    process.stderr.write('Wrote ' + output.files.length + ' file(s) to ' + args.out + ' (' + output.stats.variables + ' variables)\n');
+    return 0;
+}
+try {
+    process.exitCode = runCLI(process.argv.slice(2));
+}
+catch (error) {
+    process.stderr.write('error: ' + error.message + '\n');
+    process.exitCode = 1;
+}
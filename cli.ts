@@ -0,0 +1,119 @@
+// Variable to CSS — command line
+// Regenerates the token files from a committed variables snapshot, without Figma:
+//
+//   node cli.js --input variables.json [--options export-options.json] [--out dist/tokens] [--color-profile display-p3]
+//
+// The snapshot is a Figma REST `GET /v1/files/:key/variables/local` response or a
+// { collections, variables, textStyles? } object (see VariablesSnapshot in core.ts).
+// The options file holds ExportOptions fields; anything missing uses CLI_DEFAULT_OPTIONS.
+// Without a `breakpoints` table, the widths come from the snapshot's viewport variable.
+
+declare var require: any;
+declare var process: any;
+
+var fs = require('fs');
+var path = require('path');
+
+// Same defaults as the plugin UI, except the timestamp: regenerated files
+// should only change when the tokens do
+var CLI_DEFAULT_OPTIONS: ExportOptions = {
+  outputMode: 'fluid',
+  breakpointDirection: 'mobile-first',
+  aliasMode: 'preserved',
+  darkModeOutput: 'both',
+  includeTimestamp: false,
+  includeIds: false,
+  colorFormat: 'hex',
+  includeLegacyFallbacks: false,
+  includeTextStyles: false,
+  textStyleFormat: 'scss-mixin'
+};
+
+var CLI_USAGE = [
+  'Usage: node cli.js --input <snapshot.json> [--options <options.json>] [--out <dir>] [--color-profile <profile>]',
+  '',
+  '  --input, -i    Variables snapshot (REST variables/local response or { collections, variables })',
+  '  --options      JSON file with ExportOptions overrides',
+  '  --out, -o      Directory to write the output files to; without it the CSS goes to stdout',
+  '  --color-profile  srgb or display-p3: color space of the Figma file (REST responses don\'t include it)',
+  '  --help, -h     Show this message'
+].join('\n');
+
+function parseCLIArgs(argv: string[]): { input: string | null; options: string | null; out: string | null; colorProfile: string | null; help: boolean } {
+  var args = { input: null, options: null, out: null, colorProfile: null, help: false };
+  for (var i = 0; i < argv.length; i++) {
+    var arg = argv[i];
+    if (arg === '--input' || arg === '-i') {
+      args.input = argv[++i] || null;
+    } else if (arg === '--options') {
+      args.options = argv[++i] || null;
+    } else if (arg === '--out' || arg === '-o') {
+      args.out = argv[++i] || null;
+    } else if (arg === '--color-profile') {
+      var profile = (argv[++i] || '').toLowerCase();
+      if (profile !== 'srgb' && profile !== 'display-p3') throw new Error('--color-profile must be srgb or display-p3');
+      args.colorProfile = profile === 'display-p3' ? 'DISPLAY_P3' : 'SRGB';
+    } else if (arg === '--help' || arg === '-h') {
+      args.help = true;
+    } else {
+      throw new Error('Unknown argument: ' + arg);
+    }
+  }
+  return args;
+}
+
+function readJSONFile(file: string): any {
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+function runCLI(argv: string[]): number {
+  var args = parseCLIArgs(argv);
+  if (args.help) {
+    process.stdout.write(CLI_USAGE + '\n');
+    return 0;
+  }
+  if (!args.input) {
+    process.stderr.write(CLI_USAGE + '\n');
+    return 1;
+  }
+
+  var snapshot = parseVariablesSnapshot(readJSONFile(args.input));
+  if (args.colorProfile) snapshot.documentColorProfile = args.colorProfile as VariablesSnapshot['documentColorProfile'];
+  var options: ExportOptions = Object.assign({}, CLI_DEFAULT_OPTIONS, args.options ? readJSONFile(args.options) : {});
+  // Like the plugin UI: the viewport variable's widths, unless the options bring a table
+  if (!options.breakpoints || Object.keys(options.breakpoints).length === 0) {
+    var detected = extractBreakpointsFromVariables(snapshot);
+    if (detected) options.breakpoints = detected.breakpoints;
+  }
+  var output = generateCSS(snapshot, options);
+
+  for (var i = 0; i < output.stats.errors.length; i++) {
+    process.stderr.write('warning: ' + output.stats.errors[i] + '\n');
+  }
+  for (var i = 0; i < output.stats.diagnostics.length; i++) {
+    var diagnostic = output.stats.diagnostics[i];
+    process.stderr.write('lint ' + diagnostic.severity + ': ' + diagnostic.variable + ' (' + diagnostic.collection + '): ' + diagnostic.message + ' [' + diagnostic.rule + ']\n');
+  }
+
+  if (!args.out) {
+    if (output.files.length > 1) {
+      throw new Error('The options produce ' + output.files.length + ' files — pass --out <dir>');
+    }
+    process.stdout.write(output.css);
+    return 0;
+  }
+
+  fs.mkdirSync(args.out, { recursive: true });
+  for (var i = 0; i < output.files.length; i++) {
+    fs.writeFileSync(path.join(args.out, output.files[i].name), output.files[i].content);
+  }
+  process.stderr.write('Wrote ' + output.files.length + ' file(s) to ' + args.out + ' (' + output.stats.variables + ' variables)\n');
+  return 0;
+}
+
+try {
+  process.exitCode = runCLI(process.argv.slice(2));
+} catch (error: any) {
+  process.stderr.write('error: ' + error.message + '\n');
+  process.exitCode = 1;
+}
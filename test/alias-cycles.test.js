@@ -0,0 +1,87 @@
+// Circular var() references: cycles of variable IDs, and cycles created by two
+// variables slugifying to the same CSS name.
+
+var test = require('node:test');
+var assert = require('node:assert');
+var loadPlugin = require('./fake-figma').loadPlugin;
+
+function alias(id) {
+  return { type: 'VARIABLE_ALIAS', id: id };
+}
+
+var BREAKPOINT_MODES = [
+  { modeId: 'bp:desktop', name: 'Desktop' },
+  { modeId: 'bp:mobile', name: 'Mobile' }
+];
+
+var collections = [
+  { id: 'col:foundations', name: 'Space - 1. Foundations', remote: false, modes: [{ modeId: 'f', name: 'Default' }], variableIds: [] },
+  { id: 'col:aliases', name: 'Space - 2. Aliases', remote: false, modes: [{ modeId: 'a', name: 'Default' }], variableIds: [] },
+  { id: 'col:extended', name: 'Space - 2.1 Aliases Extended', remote: false, modes: BREAKPOINT_MODES, variableIds: [] },
+  { id: 'col:mappings', name: 'Space - 4. Mappings', remote: false, modes: [{ modeId: 'm', name: 'Default' }], variableIds: [] }
+];
+
+var variables = [];
+
+function variable(id, name, collectionId, valuesByMode) {
+  variables.push({ id: id, name: name, description: '', variableCollectionId: collectionId, resolvedType: 'FLOAT', valuesByMode: valuesByMode });
+  collections.find(function(c) { return c.id === collectionId; }).variableIds.push(id);
+}
+
+variable('var:gap', 'gap', 'col:foundations', { f: 8 });
+variable('var:small', 'small', 'col:foundations', { f: 4 });
+
+// a → b → c → a by variable ID
+variable('var:a', 'a', 'col:aliases', { a: alias('var:b') });
+variable('var:b', 'b', 'col:aliases', { a: alias('var:c') });
+variable('var:c', 'c', 'col:aliases', { a: alias('var:a') });
+
+// inset → card → space/inset, which is also --space-inset: a cycle in the CSS only
+variable('var:inset', 'inset', 'col:aliases', { a: alias('var:card') });
+variable('var:card', 'card', 'col:mappings', { m: alias('var:space-inset') });
+variable('var:space-inset', 'space/inset', 'col:mappings', { m: alias('var:gap') });
+
+// Points up on desktop and down on mobile — no single mode loops
+variable('var:up', 'up', 'col:extended', { 'bp:desktop': alias('var:down'), 'bp:mobile': alias('var:small') });
+variable('var:down', 'down', 'col:extended', { 'bp:desktop': alias('var:gap'), 'bp:mobile': alias('var:up') });
+
+var fixture = { collections: collections, variables: variables };
+
+function generate(options) {
+  var plugin = loadPlugin(fixture);
+  var base = { outputMode: 'fixed', breakpointDirection: 'mobile-first', aliasMode: 'preserved', includeTimestamp: false, colorFormat: 'hex' };
+  return plugin.request({ type: 'generate-css', options: Object.assign(base, options) }, 'css-generated')
+    .then(function(reply) { return reply.output; });
+}
+
+test('cycles are reported with their full path and left out by default', function() {
+  return generate({}).then(function(output) {
+    assert.deepStrictEqual(output.stats.errors, [
+      'Circular alias: a (Space - 2. Aliases) → b (Space - 2. Aliases) → c (Space - 2. Aliases) → a (Space - 2. Aliases) — left out 3 variables',
+      'Circular alias: inset (Space - 2. Aliases) → card (Space - 4. Mappings) → inset (Space - 2. Aliases) — left out 2 variables'
+    ]);
+    ['--space-a:', '--space-b:', '--space-c:', '--space-inset: var(--card)', '--card:'].forEach(function(declaration) {
+      assert.strictEqual(output.css.indexOf(declaration), -1, declaration + ' should be left out');
+    });
+    // With the Aliases variable gone, the colliding Mappings variable declares the name
+    assert.ok(output.css.indexOf('--space-inset: var(--space-gap);') !== -1);
+  });
+});
+
+test('break inlines the reference that closes a name collision cycle', function() {
+  return generate({ cycleHandling: 'break' }).then(function(output) {
+    assert.deepStrictEqual(output.stats.errors, [
+      'Circular alias: a (Space - 2. Aliases) → b (Space - 2. Aliases) → c (Space - 2. Aliases) → a (Space - 2. Aliases) — no value to break it with, left out 3 variables',
+      'Circular alias: inset (Space - 2. Aliases) → card (Space - 4. Mappings) → inset (Space - 2. Aliases) — broken by inlining card (Space - 4. Mappings)'
+    ]);
+    assert.ok(output.css.indexOf('--space-inset: var(--card);') !== -1);
+    assert.ok(output.css.indexOf('--card: 8px;') !== -1);
+  });
+});
+
+test('references that only loop across different modes are not cycles', function() {
+  return generate({}).then(function(output) {
+    assert.ok(output.css.indexOf('--space-up: var(--space-down);') !== -1);
+    assert.ok(output.css.indexOf('--space-down: var(--space-up);') !== -1);
+  });
+});
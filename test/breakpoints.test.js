@@ -0,0 +1,176 @@
+// Breakpoint sets beyond Desktop/Laptop/Tablet/Mobile: a name→px table,
+// widths in mode names, and mode names only the viewport variable knows.
+
+var test = require('node:test');
+var assert = require('node:assert');
+var loadPlugin = require('./fake-figma').loadPlugin;
+
+// The 6-breakpoint structure from Design_Token_System_Summary.md
+var SIX_BREAKPOINTS = { desktop: 1680, laptop: 1366, 'tablet+': 1024, tablet: 840, 'mobile+': 480, mobile: 360 };
+
+function document(modeNames, values, extra) {
+  var modes = modeNames.map(function(name, i) { return { modeId: 'm' + i, name: name }; });
+  var collections = [{ id: 'col:space', name: 'Space - 1. Foundations', remote: false, modes: modes, variableIds: [] }];
+  var variables = [];
+
+  function add(collection, id, name, valuesList) {
+    var valuesByMode = {};
+    collection.modes.forEach(function(m, i) { valuesByMode[m.modeId] = valuesList[i]; });
+    variables.push({ id: id, name: name, description: '', variableCollectionId: collection.id, resolvedType: 'FLOAT', valuesByMode: valuesByMode });
+    collection.variableIds.push(id);
+  }
+
+  add(collections[0], 'var:gap', 'gap', values);
+  if (extra) extra(collections, add);
+  return { collections: collections, variables: variables };
+}
+
+function generate(fixture, options, breakpoints) {
+  var plugin = loadPlugin(fixture);
+  var base = { outputMode: 'fixed', breakpointDirection: 'mobile-first', aliasMode: 'preserved', includeTimestamp: false, colorFormat: 'hex' };
+  return plugin.request({ type: 'generate-css', options: Object.assign(base, options), breakpoints: breakpoints }, 'css-generated')
+    .then(function(reply) { return reply.output; });
+}
+
+function mediaQueries(css) {
+  return css.match(/@media \([a-z-]+: \d+px\)/g) || [];
+}
+
+var sixModes = document(['Desktop', 'Laptop', 'Tablet+', 'Tablet', 'Mobile+', 'Mobile'], [64, 56, 40, 36, 28, 24]);
+
+test('a name→px table maps six modes, whole names before substrings', function() {
+  return Promise.all([
+    generate(sixModes, {}, SIX_BREAKPOINTS),
+    generate(sixModes, { breakpointDirection: 'desktop-first' }, SIX_BREAKPOINTS)
+  ]).then(function(outputs) {
+    assert.deepStrictEqual(mediaQueries(outputs[0].css), [
+      '@media (min-width: 480px)', '@media (min-width: 840px)', '@media (min-width: 1024px)',
+      '@media (min-width: 1366px)', '@media (min-width: 1680px)'
+    ]);
+    assert.deepStrictEqual(mediaQueries(outputs[1].css), [
+      '@media (max-width: 1679px)', '@media (max-width: 1365px)', '@media (max-width: 1023px)',
+      '@media (max-width: 839px)', '@media (max-width: 479px)'
+    ]);
+    assert.deepStrictEqual(outputs[0].stats.errors, []);
+  });
+});
+
+test('modes sharing a width are reported', function() {
+  // Without the table, "Tablet+" and "Mobile+" fall back to the default tablet and mobile widths
+  return generate(sixModes, {}).then(function(output) {
+    assert.deepStrictEqual(output.stats.errors, [
+      'Breakpoint modes Tablet+ and Tablet (Space - 1. Foundations) both map to 840px — give them distinct widths',
+      'Breakpoint modes Mobile+ and Mobile (Space - 1. Foundations) both map to 480px — give them distinct widths'
+    ]);
+  });
+});
+
+test('widths in mode names need no table', function() {
+  var fixture = document(['XL 1920', '1280px', 'Phone (390)'], [80, 64, 32]);
+  return generate(fixture, { outputMode: 'fluid' }).then(function(output) {
+    assert.ok(output.css.indexOf('--space-gap: clamp(32px, calc(') !== -1);
+    assert.ok(output.css.indexOf(', 80px);') !== -1);
+    return generate(fixture, {});
+  }).then(function(output) {
+    assert.deepStrictEqual(mediaQueries(output.css), ['@media (min-width: 1280px)', '@media (min-width: 1920px)']);
+  });
+});
+
+test('the viewport variable gives widths to any mode names', function() {
+  var fixture = document(['XL', 'M', 'S'], [80, 48, 32], function(collections, add) {
+    collections.push({ id: 'col:dimension', name: 'Dimension - 1. Foundations', remote: false, modes: collections[0].modes, variableIds: [] });
+    add(collections[1], 'var:viewport', 'grid/viewport', [1920, 1024, 390]);
+  });
+  var plugin = loadPlugin(fixture);
+  return plugin.request({ type: 'scan-breakpoints' }, 'breakpoints-detected').then(function(reply) {
+    assert.deepStrictEqual(reply.breakpoints, { xl: 1920, m: 1024, s: 390 });
+    return plugin.request({ type: 'scan-collections' }, 'collections-scanned');
+  }).then(function(reply) {
+    assert.strictEqual(reply.collections[0].modeType, 'breakpoint');
+  });
+});
+
+test('piecewise clamp gets one segment per pair of adjacent modes', function() {
+  var options = { outputMode: 'fluid', nonLinearOverrides: ['--space-gap'] };
+  return Promise.all([
+    generate(sixModes, options, SIX_BREAKPOINTS),
+    generate(sixModes, Object.assign({ breakpointDirection: 'desktop-first' }, options), SIX_BREAKPOINTS)
+  ]).then(function(outputs) {
+    var mobileFirst = outputs[0].css;
+    assert.ok(mobileFirst.indexOf('/* Piecewise clamp: non-linear scaling (5 segments) */') !== -1);
+    assert.deepStrictEqual(mobileFirst.match(/Piecewise clamp: [^ ]+ → [^ ]+ segment/g), [
+      'Piecewise clamp: Mobile+ → Tablet segment',
+      'Piecewise clamp: Tablet → Tablet+ segment',
+      'Piecewise clamp: Tablet+ → Laptop segment',
+      'Piecewise clamp: Laptop → Desktop segment'
+    ]);
+    assert.deepStrictEqual(outputs[1].css.match(/Piecewise clamp: [^ ]+ → [^ ]+ segment/g), [
+      'Piecewise clamp: Laptop → Tablet+ segment',
+      'Piecewise clamp: Tablet+ → Tablet segment',
+      'Piecewise clamp: Tablet → Mobile+ segment',
+      'Piecewise clamp: Mobile+ → Mobile segment'
+    ]);
+  });
+});
+
+test('non-linear candidates report every mode with its deviation', function() {
+  return generate(sixModes, { outputMode: 'fluid' }, SIX_BREAKPOINTS).then(function(output) {
+    var candidate = output.stats.nonLinearCandidates[0];
+    assert.deepStrictEqual(candidate.modeValues.map(function(mv) { return mv.name; }), ['Desktop', 'Laptop', 'Tablet+', 'Tablet', 'Mobile+', 'Mobile']);
+    assert.strictEqual(candidate.modeValues[0].deviation, 0);
+    assert.strictEqual(candidate.modeValues[5].deviation, 0);
+    // Laptop: 24 + 40 × (1366 − 360) / (1680 − 360) ≈ 54.48, 56 is 0.038 of the 40px range off
+    assert.strictEqual(Math.round(candidate.modeValues[1].expected * 100) / 100, 54.48);
+    // Tablet+ is furthest off the line: 40 against ≈ 44.12
+    assert.strictEqual(candidate.maxDeviation, candidate.modeValues[2].deviation);
+    assert.strictEqual(Math.round(candidate.maxDeviation * 1000) / 1000, 0.103);
+  });
+});
+
+// Display size on a t³ curve from the design doc: 32px at 360, 96px at 1680
+var cubicModes = document(['Desktop', 'Laptop', 'Tablet+', 'Tablet', 'Mobile+', 'Mobile'], [96, 60.33, 40.15, 35.08, 32.05, 32]);
+
+function autoFit(fixture, tolerance, unit) {
+  return generate(fixture, { outputMode: 'fluid', piecewiseMode: 'auto', piecewiseTolerance: tolerance, piecewiseToleranceUnit: unit }, SIX_BREAKPOINTS);
+}
+
+test('automatic fit uses the fewest segments that keep every breakpoint within tolerance', function() {
+  return Promise.all([autoFit(cubicModes, 1, 'px'), autoFit(cubicModes, 10, 'px'), autoFit(cubicModes, 10, 'percent')]).then(function(outputs) {
+    var candidates = outputs.map(function(output) { return output.stats.nonLinearCandidates[0]; });
+    // Mobile+ sits 0.72px off the Tablet → Mobile line, so it needs no segment of its own
+    assert.deepStrictEqual(candidates[0].segmentModes, ['Desktop', 'Laptop', 'Tablet+', 'Tablet', 'Mobile']);
+    assert.strictEqual(candidates[0].fitError, 0.72);
+    assert.deepStrictEqual(candidates[1].segmentModes, ['Desktop', 'Tablet+', 'Mobile']);
+    // 10% of the small values is tighter than 10px
+    assert.deepStrictEqual(candidates[2].segmentModes, ['Desktop', 'Laptop', 'Tablet+', 'Mobile']);
+
+    var css = outputs[1].css;
+    assert.ok(css.indexOf('/* Piecewise clamp: non-linear scaling (2 segments) */') !== -1);
+    assert.deepStrictEqual(css.match(/Piecewise clamp: [^ ]+ → [^ ]+ segment/g), ['Piecewise clamp: Tablet+ → Desktop segment']);
+    assert.ok(css.indexOf('@media (min-width: 1024px)') !== -1);
+    assert.deepStrictEqual(outputs[1].stats.nonLinearVars, ['--space-gap']);
+  });
+});
+
+test('automatic fit keeps a single clamp() when it is within tolerance', function() {
+  // Tablet+ is the furthest off the straight line, by about 4.1px
+  return Promise.all([autoFit(sixModes, 5, 'px'), autoFit(sixModes, 4, 'px')]).then(function(outputs) {
+    assert.deepStrictEqual(outputs[0].stats.nonLinearCandidates[0].segmentModes, ['Desktop', 'Mobile']);
+    assert.strictEqual(outputs[0].css.indexOf('Piecewise clamp'), -1);
+    assert.deepStrictEqual(outputs[0].stats.nonLinearVars, []);
+    assert.ok(outputs[1].stats.nonLinearCandidates[0].segmentModes.length > 2);
+  });
+});
+
+test('a percent tolerance scales with each value and reports the fit error in percent', function() {
+  // The display curve at ten times the size: Mobile+ is 7.2px, about 2.25%, off the Tablet → Mobile line
+  var largeModes = document(['Desktop', 'Laptop', 'Tablet+', 'Tablet', 'Mobile+', 'Mobile'], [960, 603.3, 401.5, 350.8, 320.5, 320]);
+  return Promise.all([autoFit(largeModes, 3, 'px'), autoFit(largeModes, 3, 'percent'), autoFit(cubicModes, 1, 'px')]).then(function(outputs) {
+    var candidates = outputs.map(function(output) { return output.stats.nonLinearCandidates[0]; });
+    assert.deepStrictEqual(candidates[0].segmentModes, ['Desktop', 'Laptop', 'Tablet+', 'Tablet', 'Mobile+', 'Mobile']);
+    assert.deepStrictEqual(candidates[1].segmentModes, ['Desktop', 'Laptop', 'Tablet+', 'Tablet', 'Mobile']);
+    assert.strictEqual(candidates[1].fitError, 2.25);
+    assert.strictEqual(candidates[1].fitErrorUnit, 'percent');
+    assert.strictEqual(candidates[2].fitErrorUnit, 'px');
+  });
+});
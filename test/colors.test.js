@@ -0,0 +1,90 @@
+// Color formats: OKLCH through OKLab, rgb()/hsl(), and Display P3 with sRGB
+// fallbacks, from sRGB and Display P3 files.
+
+var test = require('node:test');
+var assert = require('node:assert');
+var loadPlugin = require('./fake-figma').loadPlugin;
+
+function document(documentColorProfile) {
+  var collections = [
+    { id: 'col:foundations', name: 'Color - 1. Foundations', remote: false, modes: [{ modeId: 'f', name: 'Default' }], variableIds: ['var:red', 'var:teal', 'var:glass'] },
+    {
+      id: 'col:theme', name: 'Color - 4. Mappings', remote: false, variableIds: ['var:surface'],
+      modes: [{ modeId: 'light', name: 'Light' }, { modeId: 'dark', name: 'Dark' }]
+    }
+  ];
+  var variables = [
+    { id: 'var:red', name: 'red', description: '', variableCollectionId: 'col:foundations', resolvedType: 'COLOR', valuesByMode: { f: { r: 1, g: 0, b: 0, a: 1 } } },
+    { id: 'var:teal', name: 'teal', description: '', variableCollectionId: 'col:foundations', resolvedType: 'COLOR', valuesByMode: { f: { r: 0.2, g: 0.6, b: 0.5, a: 1 } } },
+    { id: 'var:glass', name: 'glass', description: '', variableCollectionId: 'col:foundations', resolvedType: 'COLOR', valuesByMode: { f: { r: 1, g: 1, b: 1, a: 0.5 } } },
+    {
+      id: 'var:surface', name: 'surface', description: '', variableCollectionId: 'col:theme', resolvedType: 'COLOR',
+      valuesByMode: { light: { type: 'VARIABLE_ALIAS', id: 'var:teal' }, dark: { r: 0, g: 0, b: 0, a: 1 } }
+    }
+  ];
+  return { collections: collections, variables: variables, documentColorProfile: documentColorProfile };
+}
+
+function generate(fixture, options) {
+  var plugin = loadPlugin(fixture);
+  var base = { outputMode: 'fluid', breakpointDirection: 'mobile-first', aliasMode: 'preserved', darkModeOutput: 'both', includeTimestamp: false, colorFormat: 'hex' };
+  return plugin.request({ type: 'generate-css', options: Object.assign(base, options) }, 'css-generated')
+    .then(function(reply) { return reply.output; });
+}
+
+function declaration(css, name) {
+  var match = css.match(new RegExp(name + ': ([^;]+);'));
+  return match ? match[1] : null;
+}
+
+test('oklch, rgb and hsl formats of sRGB colors', function() {
+  var srgb = document();
+  return Promise.all([generate(srgb, { colorFormat: 'oklch' }), generate(srgb, { colorFormat: 'rgb' }), generate(srgb, { colorFormat: 'hsl' })]).then(function(outputs) {
+    // sRGB red is the commonly quoted oklch(62.8% 0.2577 29.23)
+    assert.strictEqual(declaration(outputs[0].css, '--color-red'), 'oklch(62.8% 0.2577 29.23)');
+    assert.strictEqual(declaration(outputs[0].css, '--color-glass'), 'oklch(100% 0 0 / 50%)');
+    assert.strictEqual(declaration(outputs[1].css, '--color-teal'), 'rgb(51 153 128)');
+    assert.strictEqual(declaration(outputs[1].css, '--color-glass'), 'rgb(255 255 255 / 50%)');
+    assert.strictEqual(declaration(outputs[2].css, '--color-teal'), 'hsl(165 50% 40%)');
+  });
+});
+
+test('display-p3 repeats the color blocks under @supports after their sRGB fallbacks', function() {
+  return generate(document(), { colorFormat: 'display-p3' }).then(function(output) {
+    var css = output.css;
+    assert.strictEqual(declaration(css, '--color-red'), '#ff0000');
+    assert.ok(css.indexOf('@supports (color: color(display-p3 0 0 0)) {\n  :root {\n    --color-red: color(display-p3 0.9175 0.2003 0.1386);') !== -1);
+    // Aliases are the same in both passes, so only the dark value is repeated
+    assert.ok(css.indexOf(
+      '@supports (color: color(display-p3 0 0 0)) {\n' +
+      '  @media (prefers-color-scheme: dark) {\n' +
+      '    :root {\n' +
+      '      --surface: color(display-p3 0 0 0);\n' +
+      '    }\n' +
+      '  }\n' +
+      '  [data-theme="dark"] {\n' +
+      '    --surface: color(display-p3 0 0 0);\n' +
+      '  }\n' +
+      '}'
+    ) !== -1);
+    assert.deepStrictEqual(output.stats.errors, []);
+  });
+});
+
+test('Display P3 files are converted, and clipping is reported', function() {
+  var p3 = document('DISPLAY_P3');
+  return Promise.all([generate(p3, { colorFormat: 'display-p3' }), generate(p3, { colorFormat: 'oklch' }), generate(p3, {})]).then(function(outputs) {
+    assert.ok(outputs[0].css.indexOf('--color-red: color(display-p3 1 0 0);') !== -1);
+    assert.strictEqual(declaration(outputs[1].css, '--color-red'), 'oklch(64.86% 0.2995 28.96)');
+    assert.deepStrictEqual(outputs[1].stats.errors, []);
+    assert.strictEqual(declaration(outputs[2].css, '--color-teal'), '#009c7e');
+    assert.deepStrictEqual(outputs[2].stats.errors, ['Outside sRGB, clipped in the hex values: red, teal — use oklch or display-p3 to keep them']);
+  });
+});
+
+test('split theme files carry their own wide-gamut blocks', function() {
+  return generate(document(), { colorFormat: 'display-p3', splitMode: 'layer', splitThemeFiles: true }).then(function(output) {
+    var dark = output.files.find(function(f) { return f.name === 'theme-dark.css'; }).content;
+    assert.ok(dark.indexOf('@supports (color: color(display-p3 0 0 0)) {\n  [data-theme="dark"] {\n    --surface: color(display-p3 0 0 0);') !== -1);
+  });
+});
@@ -0,0 +1,71 @@
+// Contrast audit: WCAG 2.x ratio and APCA Lc of color pairs matched by name
+// pattern, in every theme mode, with a CSV report.
+
+var test = require('node:test');
+var assert = require('node:assert');
+var loadPlugin = require('./fake-figma').loadPlugin;
+var fixture = require('./fixtures/design-system');
+
+function generate(document, options) {
+  var plugin = loadPlugin(document);
+  var base = { outputMode: 'fluid', breakpointDirection: 'mobile-first', aliasMode: 'preserved', darkModeOutput: 'both', includeTimestamp: false, colorFormat: 'hex', contrastAudit: true };
+  return plugin.request({ type: 'generate-css', options: Object.assign(base, options) }, 'css-generated')
+    .then(function(reply) { return reply.output; });
+}
+
+function single(color) {
+  return { m: color };
+}
+
+// Black/white extremes and a shared-wildcard pair
+var extremes = {
+  collections: [{ id: 'col:colors', name: 'Color - 4. Mappings', remote: false, modes: [{ modeId: 'm', name: 'Default' }], variableIds: [] }],
+  variables: []
+};
+[
+  ['button/text', { r: 0, g: 0, b: 0, a: 1 }],
+  ['button/background', { r: 1, g: 1, b: 1, a: 1 }],
+  ['badge/text', { r: 1, g: 1, b: 1, a: 1 }],
+  ['badge/background', { r: 0, g: 0, b: 0, a: 1 }]
+].forEach(function(entry, i) {
+  extremes.variables.push({ id: 'var:' + i, name: entry[0], description: '', variableCollectionId: 'col:colors', resolvedType: 'COLOR', valuesByMode: single(entry[1]) });
+  extremes.collections[0].variableIds.push('var:' + i);
+});
+
+test('wildcards pair tokens that share them, with WCAG and APCA reference values', function() {
+  return generate(extremes, {}).then(function(output) {
+    var results = output.stats.contrastResults;
+    assert.deepStrictEqual(results.map(function(r) { return r.foreground + ' on ' + r.background; }), ['button/text on button/background', 'badge/text on badge/background']);
+    // Black on white: 21:1 and Lc 106.04; white on black: Lc −107.88
+    assert.strictEqual(results[0].ratio, 21);
+    assert.strictEqual(results[0].lc, 106);
+    assert.strictEqual(results[1].lc, -107.9);
+    assert.ok(results.every(function(r) { return r.passes; }));
+  });
+});
+
+test('aliases resolve per theme mode and translucent text is blended', function() {
+  return generate(fixture, { contrastPairs: [{ foreground: 'text/*', background: 'surface/background' }] }).then(function(output) {
+    var results = output.stats.contrastResults;
+    assert.deepStrictEqual(results.map(function(r) { return r.foreground + ' ' + r.mode; }), ['text/primary Light', 'text/primary Dark', 'text/accent Light', 'text/accent Dark']);
+    assert.strictEqual(results[1].foregroundColor, '#ffffff');
+    assert.strictEqual(results[1].backgroundColor, '#1a1a1f');
+    // brand/500 at 80% over white
+    assert.strictEqual(results[2].foregroundColor, '#3366e6cc');
+    assert.strictEqual(results[2].ratio, 3.51);
+    assert.strictEqual(results[2].passes, false);
+    assert.deepStrictEqual(output.stats.errors, []);
+  });
+});
+
+test('thresholds are configurable and the report is a CSV file', function() {
+  var options = { contrastPairs: [{ foreground: 'text/*', background: 'surface/background' }], contrastMinRatio: 3, contrastMinLc: 0 };
+  return generate(fixture, options).then(function(output) {
+    assert.ok(output.stats.contrastResults.every(function(r) { return r.passes; }));
+    var csv = output.files.find(function(f) { return f.name === 'contrast-report.csv'; }).content;
+    assert.deepStrictEqual(csv.split('\n').slice(0, 2), [
+      'foreground,background,mode,foreground color,background color,wcag ratio,apca lc,passes',
+      'text/primary,surface/background,Light,#1a1a1f,#ffffff,17.42,104.3,yes'
+    ]);
+  });
+});
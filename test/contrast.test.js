@@ -0,0 +1,85 @@
+// High contrast theme modes under prefers-contrast, and the forced-colors block that
+// maps tokens to CSS system colors.
+
+var test = require('node:test');
+var assert = require('node:assert');
+var loadPlugin = require('./fake-figma').loadPlugin;
+
+// High contrast modes first, so a plain substring match would pick them
+var collections = [
+  {
+    id: 'col:theme', name: 'Color - 4. Mappings', remote: false, variableIds: [],
+    modes: [
+      { modeId: 'hc:light', name: 'High Contrast Light' },
+      { modeId: 'hc:dark', name: 'High Contrast Dark' },
+      { modeId: 'theme:light', name: 'Light Mode' },
+      { modeId: 'theme:dark', name: 'Dark Mode' }
+    ]
+  }
+];
+
+var variables = [];
+
+function variable(id, name, type, values) {
+  var valuesByMode = {};
+  ['hc:light', 'hc:dark', 'theme:light', 'theme:dark'].forEach(function(modeId, i) { valuesByMode[modeId] = values[i]; });
+  variables.push({ id: id, name: name, description: '', variableCollectionId: 'col:theme', resolvedType: type, valuesByMode: valuesByMode });
+  collections[0].variableIds.push(id);
+}
+
+var WHITE = { r: 1, g: 1, b: 1, a: 1 };
+var BLACK = { r: 0, g: 0, b: 0, a: 1 };
+var GRAY = { r: 0.2, g: 0.2, b: 0.2, a: 1 };
+var LIGHT_GRAY = { r: 0.8, g: 0.8, b: 0.8, a: 1 };
+
+variable('var:surface', 'surface', 'COLOR', [WHITE, BLACK, LIGHT_GRAY, GRAY]);
+variable('var:text', 'text', 'COLOR', [BLACK, WHITE, GRAY, LIGHT_GRAY]);
+variable('var:outline', 'outline', 'FLOAT', [2, 3, 1, 1]);
+
+var fixture = { collections: collections, variables: variables };
+
+function generate(options) {
+  var plugin = loadPlugin(fixture);
+  var base = { outputMode: 'fluid', breakpointDirection: 'mobile-first', aliasMode: 'preserved', darkModeOutput: 'both', includeTimestamp: false, colorFormat: 'hex' };
+  return plugin.request({ type: 'generate-css', options: Object.assign(base, options) }, 'css-generated')
+    .then(function(reply) { return reply.output; });
+}
+
+test('high contrast modes map to prefers-contrast, combined with the color scheme', function() {
+  return generate({}).then(function(output) {
+    var css = output.css;
+    assert.ok(css.indexOf(':root {\n  --surface: #cccccc;') !== -1, 'Light Mode goes in :root');
+    assert.deepStrictEqual(css.match(/@media [^{]+/g), [
+      '@media (prefers-color-scheme: light) ',
+      '@media (prefers-color-scheme: dark) ',
+      '@media (prefers-contrast: more) ',
+      '@media (prefers-contrast: more) and (prefers-color-scheme: dark) '
+    ]);
+    assert.ok(css.indexOf('@media (prefers-contrast: more) {\n  :root {\n    --surface: #ffffff;\n    --text: #000000;\n    --outline: 2px;') !== -1);
+    assert.ok(css.indexOf('@media (prefers-contrast: more) and (prefers-color-scheme: dark) {\n  :root {\n    --surface: #000000;') !== -1);
+    assert.ok(css.indexOf('[data-theme="high-contrast-dark"] {') !== -1);
+  });
+});
+
+test('light-dark() pairs the high contrast modes too', function() {
+  return generate({ darkModeOutput: 'light-dark' }).then(function(output) {
+    assert.ok(output.css.indexOf('@media (prefers-contrast: more) {\n  :root {\n    --surface: light-dark(#ffffff, #000000);\n    --text: light-dark(#000000, #ffffff);\n    --outline: 2px;\n  }\n}') !== -1);
+    assert.ok(output.css.indexOf('@media (prefers-contrast: more) and (prefers-color-scheme: dark) {\n  :root {\n    --outline: 3px;\n  }\n}') !== -1);
+  });
+});
+
+test('forced colors map tokens to system colors and report bad entries', function() {
+  var forcedColors = { '--surface': 'canvas', '--text': 'CanvasText', '--missing': 'LinkText', '--outline': 'red' };
+  return Promise.all([generate({ forcedColors: forcedColors }), generate({ forcedColors: forcedColors, splitMode: 'type' })]).then(function(outputs) {
+    var css = outputs[0].css;
+    assert.ok(css.indexOf('@media (forced-colors: active) {\n  :root, :root * {\n    --surface: Canvas;\n    --text: CanvasText;\n  }\n}') !== -1);
+    assert.ok(css.lastIndexOf('[data-theme=') < css.indexOf('forced-colors: active'), 'forced colors come last');
+    assert.deepStrictEqual(outputs[0].stats.errors, [
+      'Forced colors: --missing is not in the export',
+      'Forced colors: red for --outline is not a CSS system color'
+    ]);
+
+    var index = outputs[1].files.find(function(f) { return f.name === 'index.css'; }).content;
+    assert.ok(/@import url\("forced-colors.css"\);\n$/.test(index), 'forced-colors.css is imported last');
+  });
+});
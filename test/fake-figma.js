@@ -0,0 +1,116 @@
+// In-memory stand-in for the parts of the Figma plugin API the plugin uses:
+// figma.variables, the local style getters and getStyleByIdAsync, figma.root plugin data,
+// color profile and pages, the current page's selection, figma.ui messaging and
+// figma.clientStorage.
+//
+// loadPlugin() runs the compiled code.js in a fresh VM context, so every test
+// starts with clean module state, exactly like reopening the plugin.
+
+var fs = require('fs');
+var path = require('path');
+var vm = require('vm');
+
+var PLUGIN_FILE = path.join(__dirname, '..', 'code.js');
+
+function createFakeFigma(fixture) {
+  var collections = fixture.collections;
+  var variables = fixture.variables;
+  var textStyles = fixture.textStyles || [];
+  var pages = (fixture.pages || []).map(createPage);
+  var pluginData = {};
+  var clientStorage = {};
+  var messages = [];
+
+  var figma = {
+    showUI: function() {},
+    closePlugin: function() {},
+    ui: {
+      onmessage: null,
+      // Messages are cloned on the way to the UI, like the real postMessage
+      postMessage: function(message) { messages.push(JSON.parse(JSON.stringify(message))); },
+      resize: function() {}
+    },
+    clientStorage: {
+      getAsync: function(key) { return Promise.resolve(clientStorage[key]); },
+      setAsync: function(key, value) { clientStorage[key] = value; return Promise.resolve(); }
+    },
+    currentPage: { selection: fixture.selection || [] },
+    root: {
+      documentColorProfile: fixture.documentColorProfile || 'SRGB',
+      children: pages,
+      getPluginData: function(key) { return pluginData[key] || ''; },
+      setPluginData: function(key, value) { pluginData[key] = value; }
+    },
+    variables: {
+      getLocalVariableCollectionsAsync: function() { return Promise.resolve(collections.slice()); },
+      getLocalVariablesAsync: function() { return Promise.resolve(variables.slice()); },
+      getVariableByIdAsync: function(id) {
+        return Promise.resolve(variables.find(function(v) { return v.id === id; }) || null);
+      },
+      getVariableCollectionByIdAsync: function(id) {
+        return Promise.resolve(collections.find(function(c) { return c.id === id; }) || null);
+      }
+    },
+    getLocalTextStylesAsync: function() { return Promise.resolve(textStyles.slice()); },
+    getLocalPaintStylesAsync: function() { return Promise.resolve((fixture.paintStyles || []).slice()); },
+    getLocalEffectStylesAsync: function() { return Promise.resolve((fixture.effectStyles || []).slice()); },
+    getLocalGridStylesAsync: function() { return Promise.resolve((fixture.gridStyles || []).slice()); },
+    getStyleByIdAsync: function(id) {
+      var kinds = { TEXT: textStyles, PAINT: fixture.paintStyles || [], EFFECT: fixture.effectStyles || [], GRID: fixture.gridStyles || [] };
+      var types = Object.keys(kinds);
+      for (var i = 0; i < types.length; i++) {
+        var style = kinds[types[i]].find(function(s) { return s.id === id; });
+        if (style) return Promise.resolve(Object.assign({ type: types[i] }, style));
+      }
+      return Promise.resolve(null);
+    }
+  };
+
+  return { figma: figma, messages: messages, pluginData: pluginData, pages: pages };
+}
+
+// documentAccess "dynamic-page": a page's children throw until loadAsync() resolves
+function createPage(fixturePage) {
+  var page = { type: 'PAGE', name: fixturePage.name, loaded: false };
+  page.loadAsync = function() {
+    page.loaded = true;
+    return Promise.resolve();
+  };
+  Object.defineProperty(page, 'children', {
+    get: function() {
+      if (!page.loaded) throw new Error('Page ' + fixturePage.name + ' is not loaded — call loadAsync() first');
+      return fixturePage.children || [];
+    }
+  });
+  return page;
+}
+
+// Load code.js against a fixture. send() dispatches a UI message and resolves
+// with the messages the plugin posted back while handling it.
+function loadPlugin(fixture) {
+  var fake = createFakeFigma(fixture);
+  var context = vm.createContext({ figma: fake.figma, __html__: '', console: console });
+  vm.runInContext(fs.readFileSync(PLUGIN_FILE, 'utf8'), context, { filename: PLUGIN_FILE });
+
+  function send(message) {
+    var start = fake.messages.length;
+    var cloned = JSON.parse(JSON.stringify(message));
+    return Promise.resolve(fake.figma.ui.onmessage(cloned)).then(function() {
+      return fake.messages.slice(start);
+    });
+  }
+
+  // Send a message and return the single reply of the given type
+  function request(message, replyType) {
+    return send(message).then(function(replies) {
+      var reply = replies.find(function(r) { return r.type === replyType || r.type === 'error'; });
+      if (!reply) throw new Error('No ' + replyType + ' reply to ' + message.type);
+      if (reply.type === 'error' && replyType !== 'error') throw new Error(reply.message);
+      return reply;
+    });
+  }
+
+  return { figma: fake.figma, pluginData: fake.pluginData, pages: fake.pages, send: send, request: request };
+}
+
+module.exports = { createFakeFigma: createFakeFigma, loadPlugin: loadPlugin };
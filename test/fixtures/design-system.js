@@ -0,0 +1,137 @@
+// Fixture document following the 4-layer token architecture (see ARCHITECTURE.md):
+// Foundations → Aliases → Aliases Extended → Mappings, with breakpoint, theme and
+// single-mode collections, plus two text styles (one bound to variables, one raw).
+
+function alias(id) {
+  return { type: 'VARIABLE_ALIAS', id: id };
+}
+
+function rgba(r, g, b, a) {
+  return { r: r, g: g, b: b, a: a === undefined ? 1 : a };
+}
+
+var BREAKPOINT_MODES = [
+  { modeId: 'bp:desktop', name: 'Desktop' },
+  { modeId: 'bp:laptop', name: 'Laptop' },
+  { modeId: 'bp:tablet', name: 'Tablet' },
+  { modeId: 'bp:mobile', name: 'Mobile' }
+];
+
+// Values listed Desktop, Laptop, Tablet, Mobile
+function perBreakpoint(desktop, laptop, tablet, mobile) {
+  return { 'bp:desktop': desktop, 'bp:laptop': laptop, 'bp:tablet': tablet, 'bp:mobile': mobile };
+}
+
+function single(modeId, value) {
+  var values = {};
+  values[modeId] = value;
+  return values;
+}
+
+var collections = [
+  { id: 'col:dimension-foundations', name: 'Dimension - 1. Foundations', remote: false, modes: BREAKPOINT_MODES, variableIds: [] },
+  { id: 'col:space-foundations', name: 'Space - 1. Foundations', remote: false, modes: BREAKPOINT_MODES, variableIds: [] },
+  { id: 'col:space-aliases', name: 'Space - 2. Aliases', remote: false, modes: [{ modeId: 'space-aliases:default', name: 'Default' }], variableIds: [] },
+  { id: 'col:space-aliases-extended', name: 'Space - 2.1 Aliases Extended', remote: false, modes: BREAKPOINT_MODES, variableIds: [] },
+  { id: 'col:space-mappings', name: 'Space - 4. Mappings', remote: false, modes: [{ modeId: 'space-mappings:default', name: 'Default' }], variableIds: [] },
+  { id: 'col:color-foundations', name: 'Color - 1. Foundations', remote: false, modes: [{ modeId: 'color-foundations:default', name: 'Default' }], variableIds: [] },
+  { id: 'col:color-mappings', name: 'Color - 4. Mappings', remote: false, modes: [{ modeId: 'color:light', name: 'Light' }, { modeId: 'color:dark', name: 'Dark' }], variableIds: [] },
+  { id: 'col:typo-foundations', name: 'Typo - 1. Foundations', remote: false, modes: BREAKPOINT_MODES, variableIds: [] },
+  { id: 'col:library', name: 'Library - 1. Foundations', remote: true, modes: [{ modeId: 'library:default', name: 'Default' }], variableIds: [] }
+];
+
+var variables = [];
+
+function variable(id, name, collectionId, resolvedType, valuesByMode, description) {
+  var v = {
+    id: id,
+    name: name,
+    description: description || '',
+    variableCollectionId: collectionId,
+    resolvedType: resolvedType,
+    valuesByMode: valuesByMode
+  };
+  variables.push(v);
+  collections.find(function(c) { return c.id === collectionId; }).variableIds.push(id);
+  return v;
+}
+
+// Dimension foundations: viewport (breakpoint source), grid proportions, a linear height
+variable('var:viewport', 'grid/viewport', 'col:dimension-foundations', 'FLOAT', perBreakpoint(1600, 1280, 800, 400), 'Viewport width per breakpoint');
+variable('var:proportion-half', 'grid/proportions/half', 'col:dimension-foundations', 'FLOAT', perBreakpoint(800, 640, 400, 200));
+variable('var:proportion-two-thirds', 'grid/proportions/two-thirds', 'col:dimension-foundations', 'FLOAT', perBreakpoint(1066.67, 853.33, 533.33, 266.67));
+variable('var:height-1', 'heights/1', 'col:dimension-foundations', 'FLOAT', perBreakpoint(32, 28.8, 27.2, 25.6));
+variable('var:column-count', 'grid/column-count', 'col:dimension-foundations', 'FLOAT', perBreakpoint(12, 12, 8, 4));
+
+// Space foundations: linear, non-linear and constant scales
+variable('var:space-fixed-2', 'fixed/2', 'col:space-foundations', 'FLOAT', perBreakpoint(4, 4, 4, 4));
+variable('var:space-fixed-5', 'fixed/5', 'col:space-foundations', 'FLOAT', perBreakpoint(20, 18, 14, 12));
+variable('var:space-fixed-10', 'fixed/10', 'col:space-foundations', 'FLOAT', perBreakpoint(64, 60, 32, 24));
+
+// Space aliases (single-mode): semantic names for foundations
+variable('var:space-micro-5', 'micro/5', 'col:space-aliases', 'FLOAT', single('space-aliases:default', alias('var:space-fixed-5')));
+variable('var:space-macro-10', 'macro/10', 'col:space-aliases', 'FLOAT', single('space-aliases:default', alias('var:space-fixed-10')));
+
+// Space aliases extended: component decisions switching references per breakpoint
+variable('var:space-card-padding', 'card/padding', 'col:space-aliases-extended', 'FLOAT', perBreakpoint(
+  alias('var:space-macro-10'), alias('var:space-macro-10'), alias('var:space-micro-5'), alias('var:space-micro-5')
+));
+
+// Space mappings: the stable component API
+variable('var:card-padding', 'card/padding', 'col:space-mappings', 'FLOAT', single('space-mappings:default', alias('var:space-card-padding')));
+variable('var:card-gap', 'card/gap', 'col:space-mappings', 'FLOAT', single('space-mappings:default', alias('var:space-micro-5')));
+
+// Color foundations
+variable('var:color-neutral-0', 'neutral/0', 'col:color-foundations', 'COLOR', single('color-foundations:default', rgba(1, 1, 1)));
+variable('var:color-neutral-900', 'neutral/900', 'col:color-foundations', 'COLOR', single('color-foundations:default', rgba(0.1, 0.1, 0.12)));
+variable('var:color-brand-500', 'brand/500', 'col:color-foundations', 'COLOR', single('color-foundations:default', rgba(0.2, 0.4, 0.9, 0.8)));
+
+// Color mappings: light/dark theme
+variable('var:surface-background', 'surface/background', 'col:color-mappings', 'COLOR', {
+  'color:light': alias('var:color-neutral-0'),
+  'color:dark': alias('var:color-neutral-900')
+});
+variable('var:text-primary', 'text/primary', 'col:color-mappings', 'COLOR', {
+  'color:light': alias('var:color-neutral-900'),
+  'color:dark': alias('var:color-neutral-0')
+});
+variable('var:text-accent', 'text/accent', 'col:color-mappings', 'COLOR', {
+  'color:light': alias('var:color-brand-500'),
+  'color:dark': rgba(0.6, 0.75, 1)
+});
+
+// Typography foundations
+variable('var:typo-family-primary', 'family/primary', 'col:typo-foundations', 'STRING', perBreakpoint('Inter', 'Inter', 'Inter', 'Inter'));
+variable('var:typo-size-heading-1', 'size/heading-1', 'col:typo-foundations', 'FLOAT', perBreakpoint(48, 44, 32, 28));
+variable('var:typo-line-height-heading-1', 'line-height/heading-1', 'col:typo-foundations', 'FLOAT', perBreakpoint(56, 52, 40, 34));
+variable('var:typo-weight-bold', 'weight/bold', 'col:typo-foundations', 'FLOAT', perBreakpoint(700, 700, 700, 700));
+variable('var:typo-style-emphasis', 'style/emphasis', 'col:typo-foundations', 'STRING', perBreakpoint('italic', 'italic', 'normal', 'normal'));
+
+// Remote library collection — never exported
+variable('var:library-token', 'token', 'col:library', 'FLOAT', single('library:default', 1));
+
+var textStyles = [
+  {
+    id: 'S:heading-1',
+    name: 'Short-form/Heading/Heading 1',
+    fontName: { family: 'Inter', style: 'Bold' },
+    fontSize: 48,
+    lineHeight: { unit: 'PIXELS', value: 56 },
+    letterSpacing: { unit: 'PERCENT', value: -2 },
+    boundVariables: {
+      fontFamily: alias('var:typo-family-primary'),
+      fontSize: alias('var:typo-size-heading-1'),
+      lineHeight: alias('var:typo-line-height-heading-1')
+    }
+  },
+  {
+    id: 'S:body',
+    name: 'Long-form/Body/Body Italic',
+    fontName: { family: 'Inter', style: 'Italic' },
+    fontSize: 16,
+    lineHeight: { unit: 'PERCENT', value: 150 },
+    letterSpacing: { unit: 'PIXELS', value: 0 }
+  }
+];
+
+module.exports = { collections: collections, variables: variables, textStyles: textStyles };
@@ -0,0 +1,213 @@
+// Golden CSS snapshots for each generation path, in both breakpoint directions.
+// Run `UPDATE_GOLDEN=1 npm test` to rewrite the files in test/golden/ after an
+// intentional output change, then review the diff.
+
+var test = require('node:test');
+var assert = require('node:assert');
+var fs = require('fs');
+var path = require('path');
+var loadPlugin = require('./fake-figma').loadPlugin;
+var fixture = require('./fixtures/design-system');
+
+var GOLDEN_DIR = path.join(__dirname, 'golden');
+var UPDATE = !!process.env.UPDATE_GOLDEN;
+
+// What the UI sends, minus the timestamp so snapshots are stable
+var BASE_OPTIONS = {
+  outputMode: 'fluid',
+  breakpointDirection: 'mobile-first',
+  aliasMode: 'preserved',
+  darkModeOutput: 'both',
+  includeTimestamp: false,
+  includeIds: false,
+  colorFormat: 'hex',
+  includeLegacyFallbacks: false,
+  includeTextStyles: false,
+  textStyleFormat: 'scss-mixin'
+};
+
+// Export only the listed collections
+function only() {
+  var keep = Array.prototype.slice.call(arguments);
+  return fixture.collections
+    .filter(function(c) { return keep.indexOf(c.id) === -1; })
+    .map(function(c) { return c.id; });
+}
+
+var SCENARIOS = [
+  { name: 'fluid', options: {} },
+  { name: 'fixed', options: { outputMode: 'fixed' } },
+  { name: 'piecewise', options: { nonLinearOverrides: ['--space-fixed-10', '--typo-size-heading-1'] } },
+  { name: 'viewport-relative', options: { viewportRelativeOverrides: ['--dimension-grid-viewport'] } },
+  { name: 'proportion', options: { excludedCollections: only('col:dimension-foundations') } },
+  { name: 'theme', options: { excludedCollections: only('col:color-foundations', 'col:color-mappings') } },
+  {
+    name: 'text-styles',
+    options: { includeTextStyles: true, textStyleFormat: 'css-vars', excludedCollections: only('col:typo-foundations') }
+  },
+  { name: 'resolved', options: { aliasMode: 'resolved' } },
+  { name: 'container', options: { outputMode: 'container', containerName: 'panel', nonLinearOverrides: ['--space-fixed-10'] } },
+  {
+    name: 'rem',
+    options: { lengthUnit: 'rem', mediaQueryUnit: 'em', pxDomains: ['dimension'], nonLinearOverrides: ['--space-fixed-10'], excludedCollections: only('col:space-foundations', 'col:space-aliases-extended', 'col:dimension-foundations', 'col:typo-foundations') }
+  },
+  // text/accent aliases the excluded brand group and gets its value inlined
+  {
+    name: 'selection-excluded',
+    options: { excludedCollections: ['col:library'], excludedGroups: ['col:color-foundations:brand'], excludePatterns: ['**/heading-1'], inlineExcludedAliases: true }
+  },
+  { name: 'selection-included', options: { includePatterns: ['fixed/*', 'micro/*', 'card/*'] } }
+];
+
+var DIRECTIONS = ['mobile-first', 'desktop-first'];
+
+// Text style formats don't depend on the direction — one snapshot each
+var TEXT_STYLE_FORMATS = [
+  { name: 'text-styles-scss-mixin', options: { includeTextStyles: true, textStyleFormat: 'scss-mixin', excludedCollections: only('col:typo-foundations') } },
+  { name: 'text-styles-css-class', options: { includeTextStyles: true, textStyleFormat: 'css-class', excludedCollections: only('col:typo-foundations') } }
+];
+
+// Additional format files. The breakpoint table is what the UI sends: the widths detected
+// from grid/viewport, plus a row no mode of the fixture uses.
+var DETECTED_BREAKPOINTS = { desktop: 1600, laptop: 1280, tablet: 800, mobile: 400, xl: 1920 };
+
+// Split files share names across split modes: prefix keeps their snapshots apart.
+// Formats that don't depend on the direction (directionless) get one snapshot.
+var FORMAT_SCENARIOS = [
+  { name: 'scss', options: { additionalFormats: ['scss'] }, files: ['_tokens.scss'] },
+  { name: 'tailwind', options: { additionalFormats: ['tailwind-v4', 'tailwind-v3'] }, files: ['tailwind-theme.css', 'tailwind.tokens.js'] },
+  {
+    name: 'split-domain', prefix: 'split-domain.', options: { splitMode: 'domain' },
+    files: ['index.css', 'color.css', 'dimension.css', 'space.css', 'typo.css']
+  },
+  {
+    name: 'split-layer', prefix: 'split-layer.', options: { splitMode: 'layer' },
+    files: ['index.css', 'foundations.css', 'aliases.css', 'aliases-extended.css', 'mappings.css']
+  },
+  {
+    name: 'split-mode', prefix: 'split-mode.', options: { splitMode: 'mode', splitThemeFiles: true },
+    files: ['index.css', 'responsive.css', 'static.css', 'theme.css', 'theme-light.css', 'theme-dark.css']
+  },
+  { name: 'dtcg', directionless: true, options: { additionalFormats: ['dtcg'] }, files: ['tokens.tokens.json'] },
+  { name: 'typescript', directionless: true, options: { additionalFormats: ['typescript'] }, files: ['tokens.ts'] }
+];
+
+function generate(options, breakpoints) {
+  var plugin = loadPlugin(fixture);
+  return plugin.request({ type: 'generate-css', options: Object.assign({}, BASE_OPTIONS, options), breakpoints: breakpoints }, 'css-generated')
+    .then(function(reply) { return reply.output; });
+}
+
+function assertGolden(fileName, actual) {
+  var file = path.join(GOLDEN_DIR, fileName);
+  if (UPDATE || !fs.existsSync(file)) {
+    fs.writeFileSync(file, actual);
+    if (!UPDATE) assert.fail('Golden file ' + fileName + ' was missing and has been written — review and re-run');
+    return;
+  }
+  assert.strictEqual(actual, fs.readFileSync(file, 'utf8'), 'Output differs from test/golden/' + fileName);
+}
+
+DIRECTIONS.forEach(function(direction) {
+  SCENARIOS.forEach(function(scenario) {
+    test(scenario.name + ' (' + direction + ')', function() {
+      var options = Object.assign({ breakpointDirection: direction }, scenario.options);
+      return generate(options).then(function(output) {
+        assertGolden(scenario.name + '.' + direction + '.css', output.css);
+      });
+    });
+  });
+});
+
+DIRECTIONS.forEach(function(direction) {
+  FORMAT_SCENARIOS.forEach(function(scenario) {
+    if (scenario.directionless && direction !== DIRECTIONS[0]) return;
+    test(scenario.name + ' files' + (scenario.directionless ? '' : ' (' + direction + ')'), function() {
+      var options = Object.assign({ breakpointDirection: direction }, scenario.options);
+      return generate(options, DETECTED_BREAKPOINTS).then(function(output) {
+        assert.deepStrictEqual(output.files.map(function(f) { return f.name; }).filter(function(name) { return scenario.files.indexOf(name) !== -1; }), scenario.files);
+        scenario.files.forEach(function(name) {
+          var file = output.files.find(function(f) { return f.name === name; });
+          // tailwind-theme.css → tailwind-theme.mobile-first.css
+          var goldenName = scenario.directionless ? name : name.replace(/(\.[a-z]+)$/, '.' + direction + '$1');
+          assertGolden((scenario.prefix || '') + goldenName, file.content);
+        });
+      });
+    });
+  });
+});
+
+TEXT_STYLE_FORMATS.forEach(function(scenario) {
+  test(scenario.name, function() {
+    return generate(scenario.options).then(function(output) {
+      assertGolden(scenario.name + '.css', output.css);
+    });
+  });
+});
+
+test('piecewise and viewport-relative variables are reported', function() {
+  return Promise.all([
+    generate(SCENARIOS[2].options),
+    generate(SCENARIOS[3].options)
+  ]).then(function(outputs) {
+    assert.deepStrictEqual(outputs[0].stats.nonLinearVars, ['--space-fixed-10', '--typo-size-heading-1']);
+    assert.deepStrictEqual(outputs[1].stats.viewportRelativeVars, ['--dimension-grid-viewport']);
+  });
+});
+
+test('proportions are detected and reported', function() {
+  return generate(SCENARIOS[4].options).then(function(output) {
+    assert.deepStrictEqual(output.stats.proportionVars, ['--dimension-grid-proportions-half', '--dimension-grid-proportions-two-thirds']);
+  });
+});
+
+test('text styles are counted', function() {
+  return generate(SCENARIOS[6].options).then(function(output) {
+    assert.strictEqual(output.stats.textStyleCount, fixture.textStyles.length);
+  });
+});
+
+test('resolved output contains no var() references', function() {
+  return generate({ aliasMode: 'resolved', includeTextStyles: true, textStyleFormat: 'css-vars' }).then(function(output) {
+    assert.strictEqual(output.css.indexOf('var('), -1);
+    assert.deepStrictEqual(output.stats.errors, []);
+  });
+});
+
+test('aliases to excluded variables are reported, inlined or not', function() {
+  return Promise.all([generate(SCENARIOS[10].options), generate(SCENARIOS[11].options)]).then(function(outputs) {
+    assert.deepStrictEqual(outputs[0].stats.errors, ['Inlined alias to excluded variable: text/accent → brand/500 (Color - 1. Foundations)']);
+    assert.deepStrictEqual(outputs[1].stats.errors, ['Alias to excluded variable: card/padding → macro/10 (Space - 2. Aliases)']);
+  });
+});
+
+test('resolved aliases to different tokens per breakpoint step instead of scaling', function() {
+  // card/padding: macro/10 on Desktop and Laptop, micro/5 on Tablet and Mobile
+  return generate({ aliasMode: 'resolved' }, DETECTED_BREAKPOINTS).then(function(output) {
+    assert.ok(output.css.indexOf('@media (min-width: 800px) {\n  :root {\n    --space-card-padding: 14px;\n  }') !== -1);
+    assert.ok(output.css.indexOf('@media (min-width: 800px) {\n  :root {\n    --card-padding: 14px;\n  }') !== -1);
+    assert.strictEqual(output.css.indexOf('--card-padding: clamp('), -1);
+    // A single target keeps its clamp()
+    assert.ok(output.css.indexOf('--space-micro-5: clamp(12px, ') !== -1);
+  });
+});
+
+test('container mode bp() mixin uses @container', function() {
+  return generate({ outputMode: 'container', containerName: 'panel', additionalFormats: ['scss'] }).then(function(output) {
+    var scss = output.files.find(function(f) { return f.name === '_tokens.scss'; }).content;
+    assert.ok(scss.indexOf('@container panel #{$query} {') !== -1);
+    assert.strictEqual(output.css.indexOf('@media (min-width'), -1);
+    assert.strictEqual(output.css.indexOf('vw'), -1);
+  });
+});
+
+test('rem values follow the root font size, em breakpoints reach SCSS and Tailwind', function() {
+  var options = { lengthUnit: 'rem', rootFontSize: 10, mediaQueryUnit: 'em', additionalFormats: ['scss', 'tailwind-v4'] };
+  return generate(options).then(function(output) {
+    function file(name) { return output.files.find(function(f) { return f.name === name; }).content; }
+    assert.ok(output.css.indexOf('--space-fixed-2: 0.4rem;') !== -1);
+    // Media query em is the browser default 16px, whatever the root font size
+    assert.ok(file('_tokens.scss').indexOf("'(min-width: 52.5em)'") !== -1);
+    assert.ok(file('tailwind-theme.css').indexOf('--breakpoint-tablet: 52.5em;') !== -1);
+  });
+});
@@ -0,0 +1,42 @@
+// Generated from Figma Variables (Tailwind CSS v3 preset)
+// Usage: presets: [require('./tailwind.tokens.js')] in tailwind.config.js
+module.exports = {
+  theme: {
+    extend: {
+      screens: {
+        'laptop': { max: '1599px' },
+        'tablet': { max: '1279px' },
+        'mobile': { max: '799px' },
+      },
+      colors: {
+        'neutral-0': 'var(--color-neutral-0)',
+        'neutral-900': 'var(--color-neutral-900)',
+        'brand-500': 'var(--color-brand-500)',
+        'surface-background': 'var(--surface-background)',
+        'text-primary': 'var(--text-primary)',
+        'text-accent': 'var(--text-accent)',
+      },
+      spacing: {
+        'fixed-2': 'var(--space-fixed-2)',
+        'fixed-5': 'var(--space-fixed-5)',
+        'fixed-10': 'var(--space-fixed-10)',
+        'micro-5': 'var(--space-micro-5)',
+        'macro-10': 'var(--space-macro-10)',
+        'card-padding': 'var(--space-card-padding)',
+        'card-gap': 'var(--card-gap)',
+      },
+      fontFamily: {
+        'primary': 'var(--typo-family-primary)',
+      },
+      fontSize: {
+        'heading-1': 'var(--typo-size-heading-1)',
+      },
+      lineHeight: {
+        'heading-1': 'var(--typo-line-height-heading-1)',
+      },
+      fontWeight: {
+        'bold': 'var(--typo-weight-bold)',
+      },
+    },
+  },
+};
@@ -0,0 +1,100 @@
+// Generated from Figma Variables — do not edit by hand
+
+export const tokens = {
+  color: {
+    neutral: {
+      '0': { name: '--color-neutral-0', var: 'var(--color-neutral-0)', values: { Default: '#ffffff' } },
+      '900': { name: '--color-neutral-900', var: 'var(--color-neutral-900)', values: { Default: '#1a1a1f' } },
+    },
+    brand: {
+      '500': { name: '--color-brand-500', var: 'var(--color-brand-500)', values: { Default: '#3366e6cc' } },
+    },
+  },
+  surface: {
+    background: { name: '--surface-background', var: 'var(--surface-background)', values: { Light: 'var(--color-neutral-0)', Dark: 'var(--color-neutral-900)' } },
+  },
+  text: {
+    primary: { name: '--text-primary', var: 'var(--text-primary)', values: { Light: 'var(--color-neutral-900)', Dark: 'var(--color-neutral-0)' } },
+    accent: { name: '--text-accent', var: 'var(--text-accent)', values: { Light: 'var(--color-brand-500)', Dark: '#99bfff' } },
+  },
+  dimension: {
+    grid: {
+      viewport: { name: '--dimension-grid-viewport', var: 'var(--dimension-grid-viewport)', values: { Desktop: 1600, Laptop: 1280, Tablet: 800, Mobile: 400 } },
+      proportions: {
+        half: { name: '--dimension-grid-proportions-half', var: 'var(--dimension-grid-proportions-half)', values: { Desktop: 800, Laptop: 640, Tablet: 400, Mobile: 200 } },
+        'two-thirds': { name: '--dimension-grid-proportions-two-thirds', var: 'var(--dimension-grid-proportions-two-thirds)', values: { Desktop: 1066.67, Laptop: 853.33, Tablet: 533.33, Mobile: 266.67 } },
+      },
+      'column-count': { name: '--dimension-grid-column-count', var: 'var(--dimension-grid-column-count)', values: { Desktop: 12, Laptop: 12, Tablet: 8, Mobile: 4 } },
+    },
+    heights: {
+      '1': { name: '--dimension-heights-1', var: 'var(--dimension-heights-1)', values: { Desktop: 32, Laptop: 28.8, Tablet: 27.2, Mobile: 25.6 } },
+    },
+  },
+  space: {
+    fixed: {
+      '2': { name: '--space-fixed-2', var: 'var(--space-fixed-2)', values: { Desktop: 4, Laptop: 4, Tablet: 4, Mobile: 4 } },
+      '5': { name: '--space-fixed-5', var: 'var(--space-fixed-5)', values: { Desktop: 20, Laptop: 18, Tablet: 14, Mobile: 12 } },
+      '10': { name: '--space-fixed-10', var: 'var(--space-fixed-10)', values: { Desktop: 64, Laptop: 60, Tablet: 32, Mobile: 24 } },
+    },
+    micro: {
+      '5': { name: '--space-micro-5', var: 'var(--space-micro-5)', values: { Default: 'var(--space-fixed-5)' } },
+    },
+    macro: {
+      '10': { name: '--space-macro-10', var: 'var(--space-macro-10)', values: { Default: 'var(--space-fixed-10)' } },
+    },
+    card: {
+      padding: { name: '--space-card-padding', var: 'var(--space-card-padding)', values: { Desktop: 'var(--space-macro-10)', Laptop: 'var(--space-macro-10)', Tablet: 'var(--space-micro-5)', Mobile: 'var(--space-micro-5)' } },
+    },
+  },
+  card: {
+    padding: { name: '--card-padding', var: 'var(--card-padding)', values: { Default: 'var(--space-card-padding)' } },
+    gap: { name: '--card-gap', var: 'var(--card-gap)', values: { Default: 'var(--space-micro-5)' } },
+  },
+  typo: {
+    family: {
+      primary: { name: '--typo-family-primary', var: 'var(--typo-family-primary)', values: { Desktop: 'Inter', Laptop: 'Inter', Tablet: 'Inter', Mobile: 'Inter' } },
+    },
+    size: {
+      'heading-1': { name: '--typo-size-heading-1', var: 'var(--typo-size-heading-1)', values: { Desktop: 48, Laptop: 44, Tablet: 32, Mobile: 28 } },
+    },
+    'line-height': {
+      'heading-1': { name: '--typo-line-height-heading-1', var: 'var(--typo-line-height-heading-1)', values: { Desktop: 56, Laptop: 52, Tablet: 40, Mobile: 34 } },
+    },
+    weight: {
+      bold: { name: '--typo-weight-bold', var: 'var(--typo-weight-bold)', values: { Desktop: 700, Laptop: 700, Tablet: 700, Mobile: 700 } },
+    },
+    style: {
+      emphasis: { name: '--typo-style-emphasis', var: 'var(--typo-style-emphasis)', values: { Desktop: 'italic', Laptop: 'italic', Tablet: 'normal', Mobile: 'normal' } },
+    },
+  },
+} as const;
+
+export type Tokens = typeof tokens;
+
+export type TokenName =
+  | '--color-neutral-0'
+  | '--color-neutral-900'
+  | '--color-brand-500'
+  | '--surface-background'
+  | '--text-primary'
+  | '--text-accent'
+  | '--dimension-grid-viewport'
+  | '--dimension-grid-proportions-half'
+  | '--dimension-grid-proportions-two-thirds'
+  | '--dimension-heights-1'
+  | '--dimension-grid-column-count'
+  | '--space-fixed-2'
+  | '--space-fixed-5'
+  | '--space-fixed-10'
+  | '--space-micro-5'
+  | '--space-macro-10'
+  | '--space-card-padding'
+  | '--card-padding'
+  | '--card-gap'
+  | '--typo-family-primary'
+  | '--typo-size-heading-1'
+  | '--typo-line-height-heading-1'
+  | '--typo-weight-bold'
+  | '--typo-style-emphasis';
+
+export type TokenVar = `var(${TokenName})`;
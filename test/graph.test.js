@@ -0,0 +1,66 @@
+// Alias graph: per-mode upstream chains of every exported token, and the same
+// graph as Mermaid and Graphviz DOT files.
+
+var test = require('node:test');
+var assert = require('node:assert');
+var loadPlugin = require('./fake-figma').loadPlugin;
+var fixture = require('./fixtures/design-system');
+
+function generate(options) {
+  var plugin = loadPlugin(fixture);
+  var base = { outputMode: 'fluid', breakpointDirection: 'mobile-first', aliasMode: 'preserved', darkModeOutput: 'both', includeTimestamp: false, colorFormat: 'hex' };
+  return plugin.request({ type: 'generate-css', options: Object.assign(base, options) }, 'css-generated')
+    .then(function(reply) { return reply.output; });
+}
+
+function node(graph, cssName) {
+  return graph.nodes.find(function(n) { return n.cssName === cssName; });
+}
+
+function file(output, name) {
+  var match = output.files.find(function(f) { return f.name === name; });
+  return match ? match.content : null;
+}
+
+test('each token lists its upstream chain per mode', function() {
+  return generate({}).then(function(output) {
+    var padding = node(output.graph, '--card-padding');
+    assert.strictEqual(padding.layerType, 'mappings');
+    // Why card/padding changes on tablet: Aliases Extended switches to micro/5
+    assert.deepStrictEqual(padding.chains.map(function(c) { return c.mode + ': ' + c.steps.join(' → ') + ' = ' + c.value; }), [
+      'Desktop: --card-padding → --space-card-padding → --space-macro-10 → --space-fixed-10 = 64px',
+      'Laptop: --card-padding → --space-card-padding → --space-macro-10 → --space-fixed-10 = 60px',
+      'Tablet: --card-padding → --space-card-padding → --space-micro-5 → --space-fixed-5 = 14px',
+      'Mobile: --card-padding → --space-card-padding → --space-micro-5 → --space-fixed-5 = 12px'
+    ]);
+
+    var extended = node(output.graph, '--space-card-padding');
+    var edges = output.graph.edges.filter(function(e) { return e.from === extended.id; }).map(function(e) {
+      return node(output.graph, '--space-macro-10').id === e.to ? ['macro', e.modes] : ['micro', e.modes];
+    });
+    assert.deepStrictEqual(edges, [['macro', ['Desktop', 'Laptop']], ['micro', ['Tablet', 'Mobile']]]);
+    // An alias used in every mode has no mode list
+    var mapping = output.graph.edges.find(function(e) { return e.from === padding.id; });
+    assert.deepStrictEqual(mapping, { from: padding.id, to: extended.id, modes: [] });
+    // Graph files only when asked for
+    assert.strictEqual(file(output, 'tokens.mmd'), null);
+  });
+});
+
+test('Mermaid and DOT files group tokens by layer and collection', function() {
+  return generate({ additionalFormats: ['mermaid', 'dot'] }).then(function(output) {
+    var mermaid = file(output, 'tokens.mmd');
+    assert.deepStrictEqual(mermaid.split('\n').slice(0, 4), [
+      '%% Alias dependency graph — generated from Figma Variables',
+      'flowchart RL',
+      '  subgraph layer0["Foundations"]',
+      '    subgraph layer0_0["Dimension - 1. Foundations"]'
+    ]);
+    assert.ok(/n\d+ -->\|"Tablet, Mobile"\| n\d+/.test(mermaid));
+
+    var dot = file(output, 'tokens.dot');
+    assert.deepStrictEqual(dot.split('\n').slice(0, 3), ['// Alias dependency graph — generated from Figma Variables', 'digraph tokens {', '  rankdir=RL;']);
+    assert.ok(dot.indexOf('label="Foundations";') !== -1);
+    assert.ok(/n\d+ -> n\d+ \[label="Light"\];/.test(dot));
+  });
+});
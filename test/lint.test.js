@@ -0,0 +1,81 @@
+// Token lint: layer violations of the Foundations → Aliases → Aliases Extended → Mappings
+// model, theme tokens that don't change, and naming patterns.
+
+var test = require('node:test');
+var assert = require('node:assert');
+var loadPlugin = require('./fake-figma').loadPlugin;
+
+var collections = [
+  { id: 'col:foundations', name: 'Space - 1. Foundations', remote: false, modes: [{ modeId: 'f', name: 'Default' }], variableIds: [] },
+  { id: 'col:aliases', name: 'Space - 2. Aliases', remote: false, modes: [{ modeId: 'a:1', name: 'Default' }, { modeId: 'a:2', name: 'Compact' }], variableIds: [] },
+  { id: 'col:mappings', name: 'Space - 4. Mappings', remote: false, modes: [{ modeId: 'm', name: 'Default' }], variableIds: [] },
+  { id: 'col:theme', name: 'Color - 4. Mappings', remote: false, modes: [{ modeId: 'light', name: 'Light' }, { modeId: 'dark', name: 'Dark' }], variableIds: [] }
+];
+
+var variables = [];
+
+function variable(id, name, collectionId, type, valuesByMode) {
+  variables.push({ id: id, name: name, description: '', variableCollectionId: collectionId, resolvedType: type, valuesByMode: valuesByMode });
+  collections.find(function(c) { return c.id === collectionId; }).variableIds.push(id);
+}
+
+function alias(id) {
+  return { type: 'VARIABLE_ALIAS', id: id };
+}
+
+variable('var:4', '4', 'col:foundations', 'FLOAT', { f: 4 });
+variable('var:8', '8', 'col:foundations', 'FLOAT', { f: 8 });
+variable('var:base', 'base', 'col:foundations', 'FLOAT', { f: alias('var:8') });
+variable('var:gap', 'gap', 'col:aliases', 'FLOAT', { 'a:1': alias('var:8'), 'a:2': alias('var:4') });
+variable('var:inset', 'inset', 'col:aliases', 'FLOAT', { 'a:1': alias('var:8'), 'a:2': alias('var:8') });
+variable('var:card-gap', 'card/gap', 'col:mappings', 'FLOAT', { m: alias('var:gap') });
+variable('var:card-inset', 'Card/Inset', 'col:mappings', 'FLOAT', { m: alias('var:4') });
+variable('var:border', 'border', 'col:theme', 'COLOR', { light: { r: 0, g: 0, b: 0, a: 1 }, dark: { r: 0, g: 0, b: 0, a: 1 } });
+
+var fixture = { collections: collections, variables: variables };
+
+function generate(options) {
+  var plugin = loadPlugin(fixture);
+  var base = { outputMode: 'fluid', breakpointDirection: 'mobile-first', aliasMode: 'preserved', darkModeOutput: 'both', includeTimestamp: false, colorFormat: 'hex' };
+  return plugin.request({ type: 'generate-css', options: Object.assign(base, options) }, 'css-generated')
+    .then(function(reply) { return reply.output.stats; });
+}
+
+function summary(diagnostics) {
+  return diagnostics.map(function(d) { return d.severity + ' ' + d.rule + ' ' + d.variable; });
+}
+
+test('layer violations and unchanged theme values are reported with their severity, names only on request', function() {
+  return generate({}).then(function(stats) {
+    assert.deepStrictEqual(summary(stats.diagnostics), [
+      'error foundation-alias base',
+      'warning alias-mode-variance gap',
+      'warning mapping-to-foundation Card/Inset',
+      'info identical-theme-values border'
+    ]);
+    assert.strictEqual(stats.diagnostics[0].message, 'Aliases 8 — Foundations should hold raw values');
+    assert.strictEqual(stats.diagnostics[0].collection, 'Space - 1. Foundations');
+    assert.strictEqual(stats.diagnostics[3].message, 'Same value in Light and Dark');
+    // Lint findings are not export warnings
+    assert.deepStrictEqual(stats.errors, []);
+  });
+});
+
+test('rules can be switched off or given another severity', function() {
+  return generate({ lintRules: { 'foundation-alias': 'off', 'identical-theme-values': 'error', naming: 'info' } }).then(function(stats) {
+    assert.deepStrictEqual(summary(stats.diagnostics), [
+      'warning alias-mode-variance gap',
+      'warning mapping-to-foundation Card/Inset',
+      'info naming Card/Inset',
+      'error identical-theme-values border'
+    ]);
+  });
+});
+
+test('naming patterns are configurable and invalid ones are reported', function() {
+  return generate({ lintRules: { naming: 'warning' }, lintNamePatterns: ['^[A-Z]', '^[a-z]+$', '('] }).then(function(stats) {
+    var naming = stats.diagnostics.filter(function(d) { return d.rule === 'naming'; });
+    assert.deepStrictEqual(naming.map(function(d) { return d.variable; }), ['4', '8', 'card/gap']);
+    assert.deepStrictEqual(stats.errors, ['Naming rule: ( is not a valid regular expression']);
+  });
+});
@@ -0,0 +1,104 @@
+// Plugin message handling against the fake figma API: scanning, breakpoint
+// detection, settings persistence in root plugin data, and CLI parity.
+
+var test = require('node:test');
+var assert = require('node:assert');
+var childProcess = require('child_process');
+var fs = require('fs');
+var os = require('os');
+var path = require('path');
+var loadPlugin = require('./fake-figma').loadPlugin;
+var fixture = require('./fixtures/design-system');
+
+test('scan-collections skips remote collections and classifies modes', function() {
+  var plugin = loadPlugin(fixture);
+  return plugin.request({ type: 'scan-collections' }, 'collections-scanned').then(function(reply) {
+    var byName = {};
+    reply.collections.forEach(function(c) { byName[c.name] = c; });
+
+    assert.strictEqual(byName['Library - 1. Foundations'], undefined);
+    assert.strictEqual(reply.collections.length, fixture.collections.length - 1);
+    assert.strictEqual(byName['Space - 1. Foundations'].modeType, 'breakpoint');
+    assert.strictEqual(byName['Color - 4. Mappings'].modeType, 'theme');
+    assert.strictEqual(byName['Space - 4. Mappings'].modeType, 'single');
+    assert.strictEqual(byName['Space - 2.1 Aliases Extended'].layerType, 'aliases-extended');
+    assert.deepStrictEqual(byName['Dimension - 1. Foundations'].groups, [
+      { path: 'grid', variableCount: 2 },
+      { path: 'grid/proportions', variableCount: 2 },
+      { path: 'heights', variableCount: 1 }
+    ]);
+  });
+});
+
+test('scan-breakpoints reads the viewport variable in Dimension Foundations', function() {
+  var plugin = loadPlugin(fixture);
+  return plugin.request({ type: 'scan-breakpoints' }, 'breakpoints-detected').then(function(reply) {
+    assert.deepStrictEqual(reply.breakpoints, { desktop: 1600, laptop: 1280, tablet: 800, mobile: 400 });
+    assert.strictEqual(reply.sourceName, 'grid/viewport');
+  });
+});
+
+test('breakpoints sent with generate-css apply to that export only', function() {
+  var plugin = loadPlugin(fixture);
+  var options = { outputMode: 'fixed', breakpointDirection: 'mobile-first', includeTimestamp: false, colorFormat: 'hex' };
+  var custom = { desktop: 1600, laptop: 1280, tablet: 800, mobile: 400 };
+  return plugin.request({ type: 'generate-css', options: options, breakpoints: custom }, 'css-generated')
+    .then(function(reply) {
+      assert.ok(reply.output.css.indexOf('@media (min-width: 1280px)') !== -1);
+      return plugin.request({ type: 'generate-css', options: options }, 'css-generated');
+    })
+    .then(function(reply) {
+      assert.ok(reply.output.css.indexOf('@media (min-width: 1366px)') !== -1);
+      assert.strictEqual(reply.output.css.indexOf('(min-width: 1280px)'), -1);
+    });
+});
+
+test('settings round-trip through root plugin data', function() {
+  var plugin = loadPlugin(fixture);
+  var settings = { outputMode: 'fixed', splitMode: 'layer' };
+  return plugin.request({ type: 'save-settings', settings: settings }, 'settings-saved')
+    .then(function() {
+      assert.strictEqual(plugin.pluginData.pluginSettings, JSON.stringify(settings));
+      return plugin.request({ type: 'load-settings' }, 'settings-loaded');
+    })
+    .then(function(reply) {
+      assert.deepStrictEqual(reply.settings, settings);
+      return plugin.request({ type: 'clear-settings' }, 'settings-cleared');
+    })
+    .then(function() {
+      return plugin.request({ type: 'load-settings' }, 'settings-loaded');
+    })
+    .then(function(reply) {
+      assert.strictEqual(reply.settings, null);
+    });
+});
+
+test('CLI output from a REST variables/local snapshot matches the plugin', function() {
+  // Shape of GET /v1/files/:key/variables/local
+  var meta = { variables: {}, variableCollections: {} };
+  fixture.collections.forEach(function(c) { meta.variableCollections[c.id] = c; });
+  fixture.variables.forEach(function(v) { meta.variables[v.id] = v; });
+
+  var dir = fs.mkdtempSync(path.join(os.tmpdir(), 'variable-to-css-'));
+  var snapshotFile = path.join(dir, 'variables.json');
+  fs.writeFileSync(snapshotFile, JSON.stringify({ status: 200, error: false, meta: meta }));
+
+  var cliCSS = childProcess.execFileSync(process.execPath, [path.join(__dirname, '..', 'cli.js'), '--input', snapshotFile], { encoding: 'utf8' });
+  fs.rmSync(dir, { recursive: true, force: true });
+
+  // The UI sends the breakpoints it detected; the CLI detects them from the snapshot
+  var plugin = loadPlugin(fixture);
+  var options = {
+    outputMode: 'fluid', breakpointDirection: 'mobile-first', aliasMode: 'preserved', darkModeOutput: 'both',
+    includeTimestamp: false, includeIds: false, colorFormat: 'hex', includeLegacyFallbacks: false
+  };
+  return plugin.request({ type: 'scan-breakpoints' }, 'breakpoints-detected').then(function(reply) {
+    return plugin.request({ type: 'generate-css', options: options, breakpoints: reply.breakpoints }, 'css-generated');
+  }).then(function(reply) {
+    assert.strictEqual(cliCSS, reply.output.css);
+    // The fixture's grid/viewport is 1600/1280/800/400, not the default table
+    assert.ok(cliCSS.indexOf('@media (min-width: 800px)') !== -1);
+    assert.strictEqual(cliCSS.indexOf('@media (min-width: 840px)'), -1);
+    assert.ok(cliCSS.indexOf('--dimension-grid-viewport: clamp(400px, ') !== -1);
+  });
+});
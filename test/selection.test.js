@@ -0,0 +1,63 @@
+// Selection scope: only the variables bound on the selected layers, their styles and
+// everything their alias chains reach.
+
+var test = require('node:test');
+var assert = require('node:assert');
+var loadPlugin = require('./fake-figma').loadPlugin;
+var fixture = require('./fixtures/design-system');
+
+function alias(id) {
+  return { type: 'VARIABLE_ALIAS', id: id };
+}
+
+var MIXED = Symbol('figma.mixed');
+
+var card = {
+  type: 'COMPONENT', name: 'Card', boundVariables: { paddingLeft: alias('var:card-padding') }, fillStyleId: 'S:surface',
+  children: [{
+    type: 'INSTANCE', name: 'Heading',
+    children: [{
+      // Styles differ per range, so the style comes from the text segments
+      type: 'TEXT', name: 'Title', textStyleId: MIXED,
+      getStyledTextSegments: function() { return [{ characters: 'Card', textStyleId: 'S:heading-1' }]; },
+      fills: [{ type: 'SOLID', color: { r: 0, g: 0, b: 0 }, boundVariables: { color: alias('var:text-primary') } }]
+    }]
+  }]
+};
+
+var paintStyles = [{ id: 'S:surface', name: 'Surface', paints: [{ type: 'SOLID', color: { r: 1, g: 1, b: 1 }, boundVariables: { color: alias('var:surface-background') } }] }];
+
+function generate(selection, options) {
+  var plugin = loadPlugin(Object.assign({}, fixture, { selection: selection, paintStyles: paintStyles }));
+  var base = { outputMode: 'fluid', breakpointDirection: 'mobile-first', aliasMode: 'preserved', darkModeOutput: 'both', includeTimestamp: false, colorFormat: 'hex', exportScope: 'selection' };
+  return plugin.request({ type: 'generate-css', options: Object.assign(base, options) }, 'css-generated');
+}
+
+function declaredNames(css) {
+  var names = (css.match(/--[a-z0-9-]+(?=:)/g) || []);
+  return names.filter(function(name, i) { return names.indexOf(name) === i; }).sort();
+}
+
+test('the selection exports its bound variables, their styles and alias chains', function() {
+  return generate([card], { includeTextStyles: true, textStyleFormat: 'css-class' }).then(function(reply) {
+    var css = reply.output.css;
+    assert.deepStrictEqual(declaredNames(css), [
+      '--card-padding', '--color-neutral-0', '--color-neutral-900',
+      '--space-card-padding', '--space-fixed-10', '--space-fixed-5', '--space-macro-10', '--space-micro-5',
+      '--surface-background', '--text-primary',
+      '--typo-family-primary', '--typo-line-height-heading-1', '--typo-size-heading-1'
+    ]);
+    // Only the text style the selection uses
+    assert.ok(css.indexOf('.heading-heading-1 {') !== -1);
+    assert.strictEqual(css.indexOf('.body-body-italic'), -1);
+    assert.deepStrictEqual(reply.output.stats.errors, []);
+  });
+});
+
+test('an empty selection is an error', function() {
+  var plugin = loadPlugin(fixture);
+  var options = { outputMode: 'fluid', breakpointDirection: 'mobile-first', includeTimestamp: false, colorFormat: 'hex', exportScope: 'selection' };
+  return plugin.request({ type: 'generate-css', options: options }, 'error').then(function(reply) {
+    assert.strictEqual(reply.message, 'Select the frames or components to export the tokens of');
+  });
+});
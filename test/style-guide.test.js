@@ -0,0 +1,87 @@
+// Style guide: a self-contained tokens.html with swatches per theme, length bars, the
+// type scale, and every token's description and alias chains.
+
+var test = require('node:test');
+var assert = require('node:assert');
+var loadPlugin = require('./fake-figma').loadPlugin;
+var fixture = require('./fixtures/design-system');
+
+function generate(options, breakpoints) {
+  var plugin = loadPlugin(fixture);
+  var base = { outputMode: 'fluid', breakpointDirection: 'mobile-first', aliasMode: 'preserved', darkModeOutput: 'both', includeTimestamp: false, colorFormat: 'hex', additionalFormats: ['html'] };
+  return plugin.request({ type: 'generate-css', options: Object.assign(base, options), breakpoints: breakpoints }, 'css-generated')
+    .then(function(reply) { return reply.output; });
+}
+
+function styleGuide(output) {
+  return output.files.find(function(f) { return f.name === 'tokens.html'; }).content;
+}
+
+// The markup of one token, from its name to the end of its modes table
+function tokenBlock(html, cssName) {
+  var start = html.indexOf('<code>' + cssName + '</code>');
+  return start === -1 ? null : html.slice(start, html.indexOf('</table>', start));
+}
+
+test('tokens show their value and alias chain per mode, with swatches and bars', function() {
+  return generate({}).then(function(output) {
+    var html = styleGuide(output);
+    assert.ok(html.indexOf('<style>\n' + output.css) !== -1, 'the generated CSS is embedded');
+
+    var surface = tokenBlock(html, '--surface-background');
+    assert.ok(surface.indexOf('<tr><th>Light</th><td><span class="sg-swatch" style="background: #ffffff"></span><code>#ffffff</code></td><td class="sg-chain">→ --color-neutral-0</td></tr>') !== -1);
+    assert.ok(surface.indexOf('<tr><th>Dark</th><td><span class="sg-swatch" style="background: #1a1a1f"></span>') !== -1);
+
+    var padding = tokenBlock(html, '--card-padding');
+    assert.ok(padding.indexOf('<div class="sg-bar" data-sg-bar style="width: var(--card-padding)"></div>') !== -1);
+    assert.ok(padding.indexOf('<tr><th>Tablet</th><td><code>14px</code></td><td class="sg-chain">→ --space-card-padding → --space-micro-5 → --space-fixed-5</td></tr>') !== -1);
+    assert.ok(tokenBlock(html, '--dimension-grid-viewport').indexOf('<p class="sg-description">Viewport width per breakpoint</p>') !== -1);
+
+    // Proportions are flex/grid values, so they get no bar
+    assert.strictEqual(html.indexOf('style="width: var(--dimension-grid-proportions-half)"'), -1);
+    // The slider spans the breakpoints and starts at the widest
+    assert.ok(html.indexOf('<input type="range" id="sg-viewport" min="320" max="1680" value="1680" list="sg-breakpoints">') !== -1);
+    assert.ok(html.indexOf('<option value="840" label="tablet"></option>') !== -1);
+    assert.strictEqual(html.indexOf('Type scale'), -1);
+  });
+});
+
+test('the slider stops at the breakpoints the CSS was generated for', function() {
+  // No mode of the fixture is "xl": the CSS has no 1920px rule, so the slider has no stop there
+  return generate({}, { desktop: 1600, laptop: 1280, tablet: 800, mobile: 400, xl: 1920 }).then(function(output) {
+    var html = styleGuide(output);
+    assert.ok(output.css.indexOf('@media (min-width: 800px)') !== -1);
+    assert.ok(html.indexOf('<input type="range" id="sg-viewport" min="320" max="1600" value="1600" list="sg-breakpoints">') !== -1);
+    assert.ok(html.indexOf('<option value="800" label="tablet"></option>') !== -1);
+    assert.strictEqual(html.indexOf('label="xl"'), -1);
+  });
+});
+
+test('the type scale uses the text style classes in any text style format', function() {
+  return generate({ includeTextStyles: true, textStyleFormat: 'scss-mixin', outputMode: 'container', containerName: 'card' }).then(function(output) {
+    var html = styleGuide(output);
+    assert.ok(html.indexOf('<div class="heading-heading-1" data-sg-type>Short-form/Heading/Heading 1</div>') !== -1);
+    assert.ok(html.indexOf('.heading-heading-1 {\n  font-family: var(--typo-family-primary);') !== -1);
+    // Container mode: the preview frame is the container
+    assert.ok(html.indexOf('  body { container-type: inline-size; container-name: card; }') !== -1);
+  });
+});
+
+test('string values can break out of neither the CSS nor the page', function() {
+  var hostile = 'Say "hi" \\ </style></template><script>alert(1)</script>';
+  var document = {
+    collections: [{ id: 'col:content', name: 'Content - 4. Mappings', remote: false, modes: [{ modeId: 'm', name: 'Default' }], variableIds: ['var:quote'] }],
+    variables: [{ id: 'var:quote', name: 'quote', description: '', variableCollectionId: 'col:content', resolvedType: 'STRING', valuesByMode: { m: hostile } }]
+  };
+  var plugin = loadPlugin(document);
+  var options = { outputMode: 'fluid', breakpointDirection: 'mobile-first', aliasMode: 'preserved', includeTimestamp: false, colorFormat: 'hex', additionalFormats: ['html'] };
+  return plugin.request({ type: 'generate-css', options: options }, 'css-generated').then(function(reply) {
+    var output = reply.output;
+    assert.ok(output.css.indexOf('--quote: "Say \\"hi\\" \\\\ </style></template><script>alert(1)</script>";') !== -1);
+
+    var html = styleGuide(output);
+    assert.ok(html.indexOf('--quote: "Say \\"hi\\" \\\\ <\\/style><\\/template><script>alert(1)<\\/script>";') !== -1);
+    assert.strictEqual(html.split('</template>').length, 2, 'only the page closes the template');
+    assert.strictEqual(html.indexOf('<script>alert(1)</script>'), -1);
+  });
+});
@@ -0,0 +1,103 @@
+// Theme collections with more than a light and a dark mode: every mode gets an
+// explicit selector from the template, and the system preference modes are configurable.
+// light-dark() output folds the light/dark pair into :root.
+
+var test = require('node:test');
+var assert = require('node:assert');
+var loadPlugin = require('./fake-figma').loadPlugin;
+
+var collections = [
+  {
+    id: 'col:theme', name: 'Color - 4. Mappings', remote: false, variableIds: [],
+    modes: [
+      { modeId: 'theme:light', name: 'Light' },
+      { modeId: 'theme:dark', name: 'Dark' },
+      { modeId: 'theme:dimmed', name: 'Dark Dimmed' },
+      { modeId: 'theme:sepia', name: 'Sepia' }
+    ]
+  }
+];
+
+var variables = [{
+  id: 'var:surface', name: 'surface', description: '', variableCollectionId: 'col:theme', resolvedType: 'COLOR',
+  valuesByMode: {
+    'theme:light': { r: 1, g: 1, b: 1, a: 1 },
+    'theme:dark': { r: 0, g: 0, b: 0, a: 1 },
+    'theme:dimmed': { r: 0.2, g: 0.2, b: 0.2, a: 1 },
+    'theme:sepia': { r: 1, g: 0.8, b: 0.6, a: 1 }
+  }
+}, {
+  // Not a color: light-dark() can't hold it
+  id: 'var:outline', name: 'outline', description: '', variableCollectionId: 'col:theme', resolvedType: 'FLOAT',
+  valuesByMode: { 'theme:light': 1, 'theme:dark': 2, 'theme:dimmed': 2, 'theme:sepia': 1 }
+}];
+collections[0].variableIds.push('var:surface', 'var:outline');
+
+var fixture = { collections: collections, variables: variables };
+
+function generate(options) {
+  var plugin = loadPlugin(fixture);
+  var base = { outputMode: 'fluid', breakpointDirection: 'mobile-first', aliasMode: 'preserved', darkModeOutput: 'both', includeTimestamp: false, colorFormat: 'hex' };
+  return plugin.request({ type: 'generate-css', options: Object.assign(base, options) }, 'css-generated')
+    .then(function(reply) { return reply.output; });
+}
+
+// Top-level rules other than :root
+function selectors(css) {
+  return (css.match(/^[.\[:][^{\n]*(?= \{)/gm) || []).filter(function(s) { return s !== ':root'; });
+}
+
+test('every theme mode gets a selector from the template', function() {
+  return Promise.all([generate({}), generate({ themeSelector: '.theme-{mode}' }), generate({ themeSelector: ':host([theme={mode}])' })]).then(function(outputs) {
+    assert.deepStrictEqual(selectors(outputs[0].css), ['[data-theme="light"]', '[data-theme="dark"]', '[data-theme="dark-dimmed"]', '[data-theme="sepia"]']);
+    assert.deepStrictEqual(selectors(outputs[1].css), ['.theme-light', '.theme-dark', '.theme-dark-dimmed', '.theme-sepia']);
+    assert.ok(outputs[1].css.indexOf('.theme-sepia {\n  --surface: #ffcc99;\n  --outline: 1px;\n}') !== -1);
+    assert.ok(outputs[2].css.indexOf(':host([theme=dark-dimmed]) {') !== -1);
+  });
+});
+
+test('the system preference modes can be chosen', function() {
+  return Promise.all([generate({}), generate({ themeLightMode: 'sepia', themeDarkMode: 'dark dimmed' })]).then(function(outputs) {
+    // Exact names win over "Dark Dimmed", which also contains "dark"
+    assert.ok(outputs[0].css.indexOf(':root {\n  --surface: #ffffff;\n') !== -1);
+    assert.ok(outputs[0].css.indexOf('@media (prefers-color-scheme: dark) {\n  :root {\n    --surface: #000000;') !== -1);
+
+    assert.ok(outputs[1].css.indexOf(':root {\n  --surface: #ffcc99;\n') !== -1);
+    assert.ok(outputs[1].css.indexOf('@media (prefers-color-scheme: light) {\n  :root {\n    --surface: #ffcc99;') !== -1);
+    assert.ok(outputs[1].css.indexOf('@media (prefers-color-scheme: dark) {\n  :root {\n    --surface: #333333;') !== -1);
+  });
+});
+
+test('system-only and selector-only output leave the other half out', function() {
+  return Promise.all([generate({ darkModeOutput: 'prefers-color-scheme' }), generate({ darkModeOutput: 'class' })]).then(function(outputs) {
+    // Modes the system preference doesn't cover keep their selectors
+    assert.deepStrictEqual(selectors(outputs[0].css), ['[data-theme="dark-dimmed"]', '[data-theme="sepia"]']);
+    assert.ok(outputs[0].css.indexOf('prefers-color-scheme: dark') !== -1);
+    assert.strictEqual(outputs[1].css.indexOf('prefers-color-scheme'), -1);
+    assert.strictEqual(selectors(outputs[1].css).length, 4);
+  });
+});
+
+test('split theme files get one file per mode', function() {
+  return generate({ splitMode: 'layer', splitThemeFiles: true }).then(function(output) {
+    var names = output.files.map(function(f) { return f.name; });
+    ['theme-light.css', 'theme-dark.css', 'theme-dark-dimmed.css', 'theme-sepia.css'].forEach(function(name) {
+      assert.ok(names.indexOf(name) !== -1, name + ' should be written');
+    });
+  });
+});
+
+test('light-dark() pairs the colors in one :root block', function() {
+  return Promise.all([generate({ darkModeOutput: 'light-dark' }), generate({ darkModeOutput: 'light-dark', colorSchemeSelectors: true, themeSelector: '.theme-{mode}' })]).then(function(outputs) {
+    var css = outputs[0].css;
+    assert.ok(css.indexOf(':root {\n  color-scheme: light dark;\n  --surface: light-dark(#ffffff, #000000);\n  --outline: 1px;\n}') !== -1);
+    // Other values follow the system preference only
+    assert.ok(css.indexOf('@media (prefers-color-scheme: dark) {\n  :root {\n    --outline: 2px;\n  }\n}') !== -1);
+    assert.strictEqual(css.indexOf('prefers-color-scheme: light'), -1);
+    // Modes beyond the pair keep their selectors
+    assert.deepStrictEqual(selectors(css), ['[data-theme="dark-dimmed"]', '[data-theme="sepia"]']);
+
+    assert.ok(outputs[1].css.indexOf('.theme-light {\n  color-scheme: light;\n  --outline: 1px;\n}') !== -1);
+    assert.ok(outputs[1].css.indexOf('.theme-dark {\n  color-scheme: dark;\n  --outline: 2px;\n}') !== -1);
+  });
+});
@@ -0,0 +1,101 @@
+// Usage scan: variables bound in the document's nodes and styles, use through alias
+// chains, and pruning what nothing uses.
+
+var test = require('node:test');
+var assert = require('node:assert');
+var loadPlugin = require('./fake-figma').loadPlugin;
+var fixture = require('./fixtures/design-system');
+
+function alias(id) {
+  return { type: 'VARIABLE_ALIAS', id: id };
+}
+
+var MIXED = Symbol('figma.mixed');
+
+var document = Object.assign({}, fixture, {
+  pages: [
+    {
+      name: 'Components',
+      children: [{
+        type: 'FRAME', name: 'Card', boundVariables: { paddingLeft: alias('var:card-padding'), paddingRight: alias('var:card-padding') }, fillStyleId: 'S:surface',
+        children: [{
+          // Bound through the node and the paint: one use
+          type: 'TEXT', name: 'Title', textStyleId: '', fillStyleId: '', boundVariables: { fills: [alias('var:text-primary')] },
+          fills: [{ type: 'SOLID', color: { r: 0, g: 0, b: 0 }, boundVariables: { color: alias('var:text-primary') } }]
+        }]
+      }]
+    },
+    {
+      name: 'Screens',
+      children: [
+        { type: 'INSTANCE', name: 'Card', boundVariables: { paddingLeft: alias('var:card-padding') } },
+        {
+          // Fills and sizes differ per range: only the styled segments have them
+          type: 'TEXT', name: 'Caption', textStyleId: '', fillStyleId: MIXED, fills: MIXED, boundVariables: {},
+          getStyledTextSegments: function() {
+            return [
+              { characters: 'New', fillStyleId: '', fills: [{ type: 'SOLID', color: { r: 0, g: 0, b: 1 }, boundVariables: { color: alias('var:color-neutral-900') } }], boundVariables: { fontSize: alias('var:typo-size-heading-1') } },
+              { characters: ' card', fillStyleId: 'S:surface', fills: [], boundVariables: {} }
+            ];
+          }
+        }
+      ]
+    }
+  ],
+  paintStyles: [
+    { id: 'S:surface', name: 'Surface', paints: [{ type: 'SOLID', color: { r: 1, g: 1, b: 1 }, boundVariables: { color: alias('var:surface-background') } }] },
+    // No node uses it
+    { id: 'S:brand', name: 'Brand', paints: [{ type: 'SOLID', color: { r: 1, g: 0, b: 0 }, boundVariables: { color: alias('var:color-brand-500') } }] }
+  ]
+});
+
+function generate(options) {
+  var plugin = loadPlugin(document);
+  var base = { outputMode: 'fluid', breakpointDirection: 'mobile-first', aliasMode: 'preserved', darkModeOutput: 'both', includeTimestamp: false, colorFormat: 'hex' };
+  return plugin.request({ type: 'generate-css', options: Object.assign(base, options) }, 'css-generated')
+    .then(function(reply) { return { output: reply.output, plugin: plugin }; });
+}
+
+function usageOf(output, cssName) {
+  return output.stats.usage.find(function(u) { return u.cssName === cssName; });
+}
+
+test('direct use counts bound nodes and the nodes using a style, transitive use follows aliases', function() {
+  return generate({ usageScan: true }).then(function(result) {
+    var output = result.output;
+    assert.ok(result.plugin.pages.every(function(page) { return page.loaded; }), 'every page is loaded before its children are read');
+    assert.deepStrictEqual(usageOf(output, '--card-padding'), { name: 'card/padding', cssName: '--card-padding', collection: 'Space - 4. Mappings', direct: 2, transitive: 0 });
+    assert.strictEqual(usageOf(output, '--text-primary').direct, 1);
+    // Through the Surface style, on the card frame and a caption segment
+    assert.strictEqual(usageOf(output, '--surface-background').direct, 2);
+    // Mixed text: bound in a segment only
+    assert.strictEqual(usageOf(output, '--color-neutral-900').direct, 1);
+    assert.strictEqual(usageOf(output, '--typo-size-heading-1').direct, 1);
+    // A style no node uses counts for nothing
+    assert.strictEqual(usageOf(output, '--color-brand-500').direct, 0);
+    // card/padding → Aliases Extended → micro/5 (Tablet, Mobile) → fixed/5
+    assert.strictEqual(usageOf(output, '--space-fixed-5').direct, 0);
+    assert.strictEqual(usageOf(output, '--space-fixed-5').transitive, 1);
+    // Reached from text/primary and surface/background
+    assert.strictEqual(usageOf(output, '--color-neutral-0').transitive, 2);
+    assert.deepStrictEqual(usageOf(output, '--card-gap'), { name: 'card/gap', cssName: '--card-gap', collection: 'Space - 4. Mappings', direct: 0, transitive: 0 });
+  });
+});
+
+test('pruning leaves out variables nothing uses', function() {
+  return Promise.all([generate({ pruneUnused: true }), generate({})]).then(function(results) {
+    var pruned = results[0].output;
+    assert.strictEqual(pruned.css.indexOf('--card-gap:'), -1);
+    assert.strictEqual(pruned.css.indexOf('--color-brand-500:'), -1);
+    ['--card-padding:', '--space-fixed-5:', '--color-neutral-0:'].forEach(function(name) {
+      assert.ok(pruned.css.indexOf(name) !== -1, name + ' is used');
+    });
+    // The report still lists what was left out
+    assert.strictEqual(usageOf(pruned, '--card-gap').direct, 0);
+    assert.deepStrictEqual(pruned.stats.errors, []);
+
+    // No scan unless asked for
+    assert.strictEqual(results[1].output.stats.usage, undefined);
+    assert.ok(results[1].plugin.pages.every(function(page) { return !page.loaded; }));
+  });
+});
@@ -0,0 +1,94 @@
+// Multi-mode collections that are neither breakpoints nor themes: brands and density
+// modes, each exported under its own selector.
+
+var test = require('node:test');
+var assert = require('node:assert');
+var loadPlugin = require('./fake-figma').loadPlugin;
+
+var collections = [
+  {
+    id: 'col:brand', name: 'Color - 4. Mappings', remote: false, variableIds: [],
+    modes: [{ modeId: 'brand:a', name: 'Brand A' }, { modeId: 'brand:b', name: 'Brand B' }]
+  },
+  {
+    id: 'col:density', name: 'Space - 4. Mappings', remote: false, variableIds: [], defaultModeId: 'density:comfortable',
+    modes: [{ modeId: 'density:compact', name: 'Compact' }, { modeId: 'density:comfortable', name: 'Comfortable' }]
+  }
+];
+
+var variables = [];
+
+function variable(id, name, collectionId, type, valuesByMode) {
+  variables.push({ id: id, name: name, description: '', variableCollectionId: collectionId, resolvedType: type, valuesByMode: valuesByMode });
+  collections.find(function(c) { return c.id === collectionId; }).variableIds.push(id);
+}
+
+variable('var:primary', 'primary', 'col:brand', 'COLOR', { 'brand:a': { r: 1, g: 0, b: 0, a: 1 }, 'brand:b': { r: 0, g: 0, b: 1, a: 1 } });
+variable('var:padding', 'padding', 'col:density', 'FLOAT', { 'density:compact': 8, 'density:comfortable': 16 });
+
+var fixture = { collections: collections, variables: variables };
+
+function generate(options) {
+  var plugin = loadPlugin(fixture);
+  var base = { outputMode: 'fluid', breakpointDirection: 'mobile-first', aliasMode: 'preserved', includeTimestamp: false, colorFormat: 'hex' };
+  return plugin.request({ type: 'generate-css', options: Object.assign(base, options) }, 'css-generated')
+    .then(function(reply) { return reply.output.css; });
+}
+
+test('scan-collections reports variant collections and their default mode', function() {
+  var plugin = loadPlugin(fixture);
+  return plugin.request({ type: 'scan-collections' }, 'collections-scanned').then(function(reply) {
+    assert.deepStrictEqual(reply.collections.map(function(c) { return c.modeType; }), ['variant', 'variant']);
+    assert.strictEqual(reply.collections[1].defaultModeId, 'density:comfortable');
+  });
+});
+
+test('every variant mode is exported, the default one in :root', function() {
+  return generate({}).then(function(css) {
+    assert.ok(css.indexOf(':root {\n  --primary: #ff0000;\n}') !== -1);
+    assert.ok(css.indexOf('[data-mode="brand-b"] {\n  --primary: #0000ff;\n}') !== -1);
+    // Figma's default mode wins over the first mode
+    assert.ok(css.indexOf(':root {\n  --padding: 16px;\n}') !== -1);
+    assert.ok(css.indexOf('[data-mode="compact"] {\n  --padding: 8px;\n}') !== -1);
+  });
+});
+
+test('configured selectors replace the default ones', function() {
+  var selectors = { 'brand b': '[data-brand="b"]', compact: '.density-compact' };
+  return generate({ variantSelectors: selectors }).then(function(css) {
+    assert.ok(css.indexOf('[data-brand="b"] {\n  --primary: #0000ff;\n}') !== -1);
+    assert.ok(css.indexOf('.density-compact {\n  --padding: 8px;\n}') !== -1);
+    assert.strictEqual(css.indexOf('data-mode'), -1);
+    return generate({ variantSelectors: selectors, outputMode: 'container' });
+  }).then(function(css) {
+    // The base block is on every element, so the selector must reach the elements below it
+    assert.ok(css.indexOf('.density-compact, .density-compact * {') !== -1);
+  });
+});
+
+test('aliases into a variant collection follow its default mode, not its first', function() {
+  var aliasing = {
+    collections: [
+      {
+        id: 'col:card', name: 'Card - 5. Components', remote: false, variableIds: ['var:inset'],
+        modes: [{ modeId: 'card:regular', name: 'Regular' }, { modeId: 'card:featured', name: 'Featured' }]
+      },
+      Object.assign({}, collections[1], { variableIds: ['var:padding'] })
+    ],
+    variables: [
+      variables[1],
+      {
+        id: 'var:inset', name: 'inset', description: '', variableCollectionId: 'col:card', resolvedType: 'FLOAT',
+        valuesByMode: { 'card:regular': { type: 'VARIABLE_ALIAS', id: 'var:padding' }, 'card:featured': { type: 'VARIABLE_ALIAS', id: 'var:padding' } }
+      }
+    ]
+  };
+  var plugin = loadPlugin(aliasing);
+  var options = { outputMode: 'fluid', breakpointDirection: 'mobile-first', aliasMode: 'resolved', includeTimestamp: false, colorFormat: 'hex' };
+  return plugin.request({ type: 'generate-css', options: options }, 'css-generated').then(function(reply) {
+    // Neither "Regular" nor "Featured" names a density mode: Comfortable is the default
+    assert.ok(reply.output.css.indexOf(':root {\n  --card-inset: 16px;\n}') !== -1);
+    assert.ok(reply.output.css.indexOf('[data-mode="featured"] {\n  --card-inset: 16px;\n}') !== -1);
+    assert.strictEqual(reply.output.css.indexOf('--card-inset: 8px'), -1);
+  });
+});